@@ -0,0 +1,521 @@
+/**
+ * Activity Log Queries
+ *
+ * Filters the Connect activity log, which itself only supports limit/offset
+ * paging. Matching entries are collected by walking raw log pages until enough
+ * matches are found, the log or the requested time window is exhausted, or the
+ * page cap for a single call is reached.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type { APIRequest, PaginatedResponse } from './types/entities.js';
+import { ValidationError } from './utils/errors.js';
+
+// =============================================================================
+// Query Types
+// =============================================================================
+
+export interface ActivityFilter {
+  /** Only entries with this action */
+  action?: NonNullable<APIRequest['action']>;
+  /** Only entries with this result */
+  result?: NonNullable<APIRequest['result']>;
+  /** Only entries made by this actor ID */
+  actorId?: string;
+  /** Only entries made from this IP address */
+  requestIp?: string;
+  /** Only entries touching this vault ID */
+  vaultId?: string;
+  /** Only entries touching this item ID */
+  itemId?: string;
+  /** Only entries at or after this ISO 8601 timestamp */
+  since?: string;
+  /** Only entries at or before this ISO 8601 timestamp */
+  until?: string;
+}
+
+export interface ActivityQuery extends ActivityFilter {
+  /** Maximum number of matching entries to return */
+  limit: number;
+  /** Raw log offset to start scanning from (nextOffset of a previous call) */
+  offset?: number;
+  /** Maximum number of raw log pages to scan in this call */
+  maxPages: number;
+}
+
+export interface ActivityQueryResult extends PaginatedResponse<APIRequest> {
+  /** Raw log pages scanned */
+  scannedPages: number;
+  /** Raw log entries scanned */
+  scannedEntries: number;
+  /** Scanning stopped at maxPages; continue from nextOffset */
+  pageCapReached: boolean;
+}
+
+/** Raw page size used when scanning with filters */
+const SCAN_PAGE_SIZE = 100;
+
+// =============================================================================
+// Query
+// =============================================================================
+
+/**
+ * Query the activity log with filters.
+ *
+ * nextOffset is a raw log offset: pass it back as offset to continue the scan.
+ */
+export async function queryActivity(
+  client: OnePasswordClient,
+  query: ActivityQuery,
+  options?: RequestOptions
+): Promise<ActivityQueryResult> {
+  const window = parseWindow(query);
+  const filtered = hasFilter(query);
+  // Without filters every entry matches, so a page of exactly limit entries suffices
+  const pageSize = filtered ? SCAN_PAGE_SIZE : Math.min(query.limit, SCAN_PAGE_SIZE);
+
+  const items: APIRequest[] = [];
+  let offset = query.offset ?? 0;
+  let scannedPages = 0;
+  let scannedEntries = 0;
+
+  while (scannedPages < query.maxPages) {
+    const page = await client.listActivity({ limit: pageSize, offset }, options);
+    scannedPages++;
+
+    for (const [index, entry] of page.items.entries()) {
+      if (items.length === query.limit) {
+        return result(items, offset + index, true, scannedPages, scannedEntries, false);
+      }
+      scannedEntries++;
+      if (matchesActivity(entry, query, window)) {
+        items.push(entry);
+      }
+    }
+    offset += page.items.length;
+
+    if (items.length === query.limit && page.hasMore) {
+      return result(items, offset, true, scannedPages, scannedEntries, false);
+    }
+    if (!page.hasMore || windowCovered(page.items, window)) {
+      return result(items, offset, false, scannedPages, scannedEntries, false);
+    }
+  }
+
+  return result(items, offset, true, scannedPages, scannedEntries, true);
+}
+
+/**
+ * Check whether an activity entry matches a filter
+ */
+export function matchesActivity(
+  entry: APIRequest,
+  filter: ActivityFilter,
+  window = parseWindow(filter)
+): boolean {
+  if (filter.action && entry.action !== filter.action) return false;
+  if (filter.result && entry.result !== filter.result) return false;
+  if (filter.actorId && entry.actor?.id !== filter.actorId) return false;
+  if (filter.requestIp && entry.actor?.requestIp !== filter.requestIp) return false;
+  if (filter.vaultId && entry.resource?.vault?.id !== filter.vaultId) return false;
+  if (filter.itemId && entry.resource?.item?.id !== filter.itemId) return false;
+
+  if (window.since !== undefined || window.until !== undefined) {
+    const time = timestampOf(entry);
+    if (time === undefined) return false;
+    if (window.since !== undefined && time < window.since) return false;
+    if (window.until !== undefined && time > window.until) return false;
+  }
+  return true;
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+export interface ActivityReportOptions {
+  /** Number of entries kept in each ranked list */
+  top: number;
+  /** Bucket width for read-rate burst detection, in minutes */
+  bucketMinutes: number;
+  /** A bucket is a burst when its reads exceed this multiple of the actor's baseline */
+  burstFactor: number;
+  /** Minimum reads in a bucket for it to count as a burst */
+  minBurstReads: number;
+}
+
+export interface ActorSummary {
+  actorId: string;
+  requests: number;
+  reads: number;
+  writes: number;
+  denied: number;
+  ips: string[];
+  userAgents: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+export interface IpSummary {
+  ip: string;
+  requests: number;
+  denied: number;
+  actors: number;
+  firstSeen?: string;
+}
+
+export interface ReadItemSummary {
+  itemId: string;
+  vaultId?: string;
+  reads: number;
+  actors: number;
+}
+
+export interface FirstSeen {
+  /** The user agent or IP address */
+  value: string;
+  actorId: string;
+  firstSeen: string;
+  /** First appeared after the actor's first request in the window */
+  newForActor: boolean;
+}
+
+export interface ReadBurst {
+  actorId: string;
+  start: string;
+  end: string;
+  reads: number;
+  /** Average reads per bucket over the actor's other buckets */
+  baseline: number;
+}
+
+export interface ActivityReport {
+  window: {
+    since?: string;
+    until?: string;
+    /** Oldest entry seen */
+    first?: string;
+    /** Newest entry seen */
+    last?: string;
+  };
+  totals: {
+    requests: number;
+    denied: number;
+    actors: number;
+    ips: number;
+    byAction: Record<string, number>;
+  };
+  actors: ActorSummary[];
+  ips: IpSummary[];
+  mostReadItems: ReadItemSummary[];
+  firstSeenUserAgents: FirstSeen[];
+  firstSeenIps: FirstSeen[];
+  bursts: ReadBurst[];
+  /** How much of the log was scanned to build the report */
+  scan?: {
+    /** Whether the whole window was covered */
+    complete: boolean;
+    scannedPages: number;
+    scannedEntries: number;
+    /** Log offset to continue from when incomplete */
+    nextOffset?: number;
+  };
+}
+
+const UNKNOWN = 'unknown';
+
+/**
+ * Aggregate activity entries into a report
+ */
+export function buildActivityReport(
+  entries: APIRequest[],
+  window: Pick<ActivityFilter, 'since' | 'until'>,
+  options: ActivityReportOptions
+): ActivityReport {
+  // Process oldest first so first-seen values are correct regardless of log order
+  const timed = entries
+    .map((entry) => ({ entry, time: timestampOf(entry) }))
+    .sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+
+  const actors = new Map<string, ActorSummary & { ipSet: Set<string>; uaSet: Set<string> }>();
+  const ips = new Map<string, IpSummary & { actorSet: Set<string> }>();
+  const items = new Map<string, ReadItemSummary & { actorSet: Set<string> }>();
+  const byAction: Record<string, number> = {};
+  const userAgents: FirstSeen[] = [];
+  const firstIps: FirstSeen[] = [];
+  let denied = 0;
+
+  for (const { entry } of timed) {
+    const actorId = entry.actor?.id ?? UNKNOWN;
+    const ip = entry.actor?.requestIp;
+    const userAgent = entry.actor?.userAgent;
+    const isDenied = entry.result === 'DENY';
+    const isRead = entry.action === 'READ';
+
+    byAction[entry.action ?? UNKNOWN] = (byAction[entry.action ?? UNKNOWN] ?? 0) + 1;
+    if (isDenied) denied++;
+
+    let actor = actors.get(actorId);
+    if (!actor) {
+      actor = {
+        actorId,
+        requests: 0,
+        reads: 0,
+        writes: 0,
+        denied: 0,
+        ips: [],
+        userAgents: [],
+        firstSeen: entry.timestamp,
+        ipSet: new Set(),
+        uaSet: new Set(),
+      };
+      actors.set(actorId, actor);
+    }
+    const isFirstForActor = actor.requests === 0;
+    actor.requests++;
+    if (isRead) actor.reads++;
+    else if (entry.action) actor.writes++;
+    if (isDenied) actor.denied++;
+    actor.lastSeen = entry.timestamp ?? actor.lastSeen;
+
+    if (userAgent && !actor.uaSet.has(userAgent)) {
+      actor.uaSet.add(userAgent);
+      userAgents.push({
+        value: userAgent,
+        actorId,
+        firstSeen: entry.timestamp ?? '',
+        newForActor: !isFirstForActor,
+      });
+    }
+
+    if (ip) {
+      if (!actor.ipSet.has(ip)) {
+        actor.ipSet.add(ip);
+        firstIps.push({
+          value: ip,
+          actorId,
+          firstSeen: entry.timestamp ?? '',
+          newForActor: !isFirstForActor,
+        });
+      }
+
+      let ipSummary = ips.get(ip);
+      if (!ipSummary) {
+        ipSummary = {
+          ip,
+          requests: 0,
+          denied: 0,
+          actors: 0,
+          firstSeen: entry.timestamp,
+          actorSet: new Set(),
+        };
+        ips.set(ip, ipSummary);
+      }
+      ipSummary.requests++;
+      if (isDenied) ipSummary.denied++;
+      ipSummary.actorSet.add(actorId);
+    }
+
+    const itemId = entry.resource?.item?.id;
+    if (isRead && itemId && !isDenied) {
+      let item = items.get(itemId);
+      if (!item) {
+        item = {
+          itemId,
+          vaultId: entry.resource?.vault?.id,
+          reads: 0,
+          actors: 0,
+          actorSet: new Set(),
+        };
+        items.set(itemId, item);
+      }
+      item.reads++;
+      item.actorSet.add(actorId);
+    }
+  }
+
+  const times = timed.map((t) => t.time).filter((t): t is number => t !== undefined);
+
+  return {
+    window: {
+      since: window.since,
+      until: window.until,
+      first: times.length > 0 ? new Date(times[0]).toISOString() : undefined,
+      last: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : undefined,
+    },
+    totals: {
+      requests: entries.length,
+      denied,
+      actors: actors.size,
+      ips: ips.size,
+      byAction,
+    },
+    actors: [...actors.values()]
+      .sort((a, b) => b.requests - a.requests)
+      .slice(0, options.top)
+      .map(({ ipSet, uaSet, ...actor }) => ({ ...actor, ips: [...ipSet], userAgents: [...uaSet] })),
+    ips: [...ips.values()]
+      .sort((a, b) => b.requests - a.requests)
+      .slice(0, options.top)
+      .map(({ actorSet, ...ip }) => ({ ...ip, actors: actorSet.size })),
+    mostReadItems: [...items.values()]
+      .sort((a, b) => b.reads - a.reads)
+      .slice(0, options.top)
+      .map(({ actorSet, ...item }) => ({ ...item, actors: actorSet.size })),
+    firstSeenUserAgents: rankFirstSeen(userAgents, options.top),
+    firstSeenIps: rankFirstSeen(firstIps, options.top),
+    bursts: detectBursts(timed, window, options),
+  };
+}
+
+/**
+ * Values new to an actor first, then the most recently first-seen
+ */
+function rankFirstSeen(values: FirstSeen[], top: number): FirstSeen[] {
+  return [...values]
+    .sort(
+      (a, b) =>
+        Number(b.newForActor) - Number(a.newForActor) || b.firstSeen.localeCompare(a.firstSeen)
+    )
+    .slice(0, top);
+}
+
+/**
+ * Find buckets where an actor's reads exceed burstFactor times its baseline,
+ * the average over its other buckets in the window
+ */
+function detectBursts(
+  timed: Array<{ entry: APIRequest; time?: number }>,
+  window: Pick<ActivityFilter, 'since' | 'until'>,
+  options: ActivityReportOptions
+): ReadBurst[] {
+  const reads = timed.filter(
+    (t): t is { entry: APIRequest; time: number } =>
+      t.entry.action === 'READ' && t.time !== undefined
+  );
+  if (reads.length === 0) {
+    return [];
+  }
+
+  const bucketMs = options.bucketMinutes * 60_000;
+  const start = window.since ? Date.parse(window.since) : reads[0].time;
+  const end = window.until ? Date.parse(window.until) : reads[reads.length - 1].time;
+  const bucketCount = Math.max(1, Math.ceil((end - start + 1) / bucketMs));
+
+  const perActor = new Map<string, Map<number, number>>();
+  for (const { entry, time } of reads) {
+    const bucket = Math.floor((time - start) / bucketMs);
+    if (bucket < 0 || bucket >= bucketCount) continue;
+    const actorId = entry.actor?.id ?? UNKNOWN;
+    const buckets = perActor.get(actorId) ?? new Map<number, number>();
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+    perActor.set(actorId, buckets);
+  }
+
+  const bursts: ReadBurst[] = [];
+  for (const [actorId, buckets] of perActor) {
+    const total = [...buckets.values()].reduce((sum, count) => sum + count, 0);
+    for (const [bucket, count] of buckets) {
+      const baseline = bucketCount > 1 ? (total - count) / (bucketCount - 1) : 0;
+      if (count >= options.minBurstReads && count > options.burstFactor * baseline) {
+        bursts.push({
+          actorId,
+          start: new Date(start + bucket * bucketMs).toISOString(),
+          end: new Date(start + (bucket + 1) * bucketMs).toISOString(),
+          reads: count,
+          baseline: Math.round(baseline * 100) / 100,
+        });
+      }
+    }
+  }
+  return bursts.sort((a, b) => b.reads - a.reads);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface TimeWindow {
+  since?: number;
+  until?: number;
+}
+
+function parseWindow(filter: ActivityFilter): TimeWindow {
+  const since = parseTimestamp(filter.since, 'since');
+  const until = parseTimestamp(filter.until, 'until');
+  if (since !== undefined && until !== undefined && since > until) {
+    throw new ValidationError('since must not be later than until');
+  }
+  return { since, until };
+}
+
+function parseTimestamp(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${name} must be an ISO 8601 timestamp`);
+  }
+  return time;
+}
+
+function timestampOf(entry: APIRequest): number | undefined {
+  const time = entry.timestamp ? Date.parse(entry.timestamp) : Number.NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function hasFilter(filter: ActivityFilter): boolean {
+  return Boolean(
+    filter.action ||
+      filter.result ||
+      filter.actorId ||
+      filter.requestIp ||
+      filter.vaultId ||
+      filter.itemId ||
+      filter.since ||
+      filter.until
+  );
+}
+
+/**
+ * Whether the scan has moved past the time window, so later pages cannot match.
+ * The log order (newest or oldest first) is taken from the page itself.
+ */
+function windowCovered(page: APIRequest[], window: TimeWindow): boolean {
+  const times = page.map(timestampOf).filter((t): t is number => t !== undefined);
+  if (times.length < 2) {
+    return false;
+  }
+  const first = times[0];
+  const last = times[times.length - 1];
+
+  if (first > last) {
+    // Newest first: done once the page reaches entries before the window
+    return window.since !== undefined && last < window.since;
+  }
+  if (first < last) {
+    // Oldest first: done once the page reaches entries after the window
+    return window.until !== undefined && last > window.until;
+  }
+  return false;
+}
+
+function result(
+  items: APIRequest[],
+  nextOffset: number,
+  hasMore: boolean,
+  scannedPages: number,
+  scannedEntries: number,
+  pageCapReached: boolean
+): ActivityQueryResult {
+  return {
+    items,
+    count: items.length,
+    hasMore,
+    nextOffset: hasMore ? nextOffset : undefined,
+    scannedPages,
+    scannedEntries,
+    pageCapReached,
+  };
+}
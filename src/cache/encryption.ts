@@ -0,0 +1,105 @@
+/**
+ * Cache Encryption
+ *
+ * AES-GCM encryption for persistent cache tiers. The key is derived with HKDF
+ * from the tenant's Connect token, so entries can only be read back by requests
+ * carrying the same token.
+ */
+
+import type { CacheStore } from './stores.js';
+
+const KEY_SALT = 'primrose-mcp-1password/cache';
+const KEY_INFO = 'cache-encryption-v1';
+const IV_LENGTH = 12;
+
+/**
+ * SHA-256 hex digest of a string
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+class EncryptingCacheStore implements CacheStore {
+  readonly persistent: boolean;
+  private store: CacheStore;
+  private key: Promise<CryptoKey>;
+
+  constructor(store: CacheStore, secret: string) {
+    this.store = store;
+    this.persistent = store.persistent;
+    this.key = deriveKey(secret);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const stored = await this.store.get(key);
+    if (stored === undefined) {
+      return undefined;
+    }
+    try {
+      const bytes = Uint8Array.from(atob(stored), (c) => c.charCodeAt(0));
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+        await this.key,
+        bytes.slice(IV_LENGTH)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      // Undecryptable entries (e.g. written under another key) are treated as misses
+      return undefined;
+    }
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await this.key,
+        new TextEncoder().encode(value)
+      )
+    );
+    const bytes = new Uint8Array(IV_LENGTH + ciphertext.length);
+    bytes.set(iv);
+    bytes.set(ciphertext, IV_LENGTH);
+
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    await this.store.put(key, btoa(binary), ttlSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+}
+
+async function deriveKey(secret: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(KEY_SALT),
+      info: encoder.encode(KEY_INFO),
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Wrap a cache store so values are encrypted at rest.
+ *
+ * @param store - Underlying (persistent) store
+ * @param secret - Tenant secret the encryption key is derived from
+ */
+export function createEncryptingStore(store: CacheStore, secret: string): CacheStore {
+  return new EncryptingCacheStore(store, secret);
+}
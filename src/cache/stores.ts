@@ -0,0 +1,161 @@
+/**
+ * Cache Stores
+ *
+ * Pluggable key/value storage for the caching client: in-memory (default),
+ * Workers KV, or the Cache API.
+ *
+ * Persistent stores (KV, Cache API) are always wrapped in an encrypting store,
+ * so cached items - including their secret field values - never reach them in
+ * plaintext.
+ */
+
+import type { Env } from '../types/env.js';
+import { createEncryptingStore } from './encryption.js';
+
+// =============================================================================
+// Cache Store Interface
+// =============================================================================
+
+export interface CacheStore {
+  /** Whether entries outlive the Worker isolate */
+  readonly persistent: boolean;
+  get(key: string): Promise<string | undefined>;
+  put(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheBackend = 'memory' | 'kv' | 'cache-api' | 'none';
+
+// =============================================================================
+// In-Memory Store
+// =============================================================================
+
+const MAX_MEMORY_ENTRIES = 1000;
+
+// Shared across requests handled by the same isolate; keys are tenant-scoped
+const memoryEntries = new Map<string, { value: string; expiresAt: number }>();
+
+class MemoryCacheStore implements CacheStore {
+  readonly persistent = false;
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = memoryEntries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      memoryEntries.delete(key);
+      return undefined;
+    }
+    // Refresh insertion order so eviction drops the least recently used entry
+    memoryEntries.delete(key);
+    memoryEntries.set(key, entry);
+    return entry.value;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    memoryEntries.delete(key);
+    memoryEntries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (memoryEntries.size > MAX_MEMORY_ENTRIES) {
+      const oldest = memoryEntries.keys().next().value;
+      if (oldest === undefined) break;
+      memoryEntries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    memoryEntries.delete(key);
+  }
+}
+
+// =============================================================================
+// Workers KV Store
+// =============================================================================
+
+// KV rejects expirations shorter than 60 seconds
+const KV_MIN_TTL_SECONDS = 60;
+
+class KvCacheStore implements CacheStore {
+  readonly persistent = true;
+  private namespace: KVNamespace;
+
+  constructor(namespace: KVNamespace) {
+    this.namespace = namespace;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.namespace.get(key)) ?? undefined;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.namespace.put(key, value, {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, ttlSeconds),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+}
+
+// =============================================================================
+// Cache API Store
+// =============================================================================
+
+const CACHE_API_ORIGIN = 'https://onepassword-mcp.cache';
+
+class CacheApiStore implements CacheStore {
+  readonly persistent = true;
+
+  async get(key: string): Promise<string | undefined> {
+    const response = await caches.default.match(this.toRequest(key));
+    return response ? response.text() : undefined;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await caches.default.put(
+      this.toRequest(key),
+      new Response(value, { headers: { 'Cache-Control': `max-age=${ttlSeconds}` } })
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await caches.default.delete(this.toRequest(key));
+  }
+
+  private toRequest(key: string): Request {
+    return new Request(`${CACHE_API_ORIGIN}/${encodeURIComponent(key)}`);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create the cache store configured by CACHE_BACKEND.
+ *
+ * Returns undefined when caching is disabled. Persistent backends are encrypted
+ * with a key derived from the tenant's Connect token. "kv" without a CACHE_KV
+ * binding falls back to the memory store.
+ *
+ * @param env - Worker environment
+ * @param connectToken - Tenant Connect token used to derive the encryption key
+ */
+export function createCacheStore(env: Env, connectToken: string): CacheStore | undefined {
+  const backend = (env.CACHE_BACKEND || 'memory') as CacheBackend;
+
+  switch (backend) {
+    case 'none':
+      return undefined;
+    case 'kv':
+      // A missing binding degrades to the per-isolate cache rather than failing every request
+      return env.CACHE_KV
+        ? createEncryptingStore(new KvCacheStore(env.CACHE_KV), connectToken)
+        : new MemoryCacheStore();
+    case 'cache-api':
+      return createEncryptingStore(new CacheApiStore(), connectToken);
+    default:
+      return new MemoryCacheStore();
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Caching 1Password Connect Client
+ *
+ * Wraps a OnePasswordClient with a version-aware cache for vaults and items.
+ *
+ * - Vault metadata is cached briefly; it carries the vault's contentVersion.
+ * - Item lists and items are cached against the contentVersion of their vault,
+ *   so they are re-fetched only after the vault's content has changed. A cached
+ *   item whose Item.version still matches a current listing is kept.
+ * - Mutations through this client invalidate the affected vault and item, and
+ *   every cached vault list.
+ * - Reads with RequestOptions.noCache bypass the cache.
+ *
+ * Entries are scoped per tenant by a hash of the Connect token.
+ */
+
+import { sha256Hex } from './cache/encryption.js';
+import type { CacheStore } from './cache/stores.js';
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type {
+  APIRequest,
+  Item,
+  ItemCreateInput,
+  ItemFile,
+  ItemUpdateInput,
+  JsonPatchOperation,
+  PaginatedResponse,
+  PaginationParams,
+  ServerHealth,
+  Vault,
+} from './types/entities.js';
+
+// =============================================================================
+// Cache Configuration
+// =============================================================================
+
+export interface CacheOptions {
+  /** Backing store */
+  store: CacheStore;
+  /** Tenant Connect token (hashed to scope cache keys) */
+  connectToken: string;
+  /** How long vault metadata is trusted before its contentVersion is re-checked */
+  vaultTtlSeconds?: number;
+  /** Upper bound on how long items and item lists are kept */
+  itemTtlSeconds?: number;
+}
+
+const DEFAULT_VAULT_TTL_SECONDS = 30;
+const DEFAULT_ITEM_TTL_SECONDS = 600;
+
+/**
+ * A cached value tagged with the vault content version it was read at
+ */
+interface VersionedEntry<T> {
+  contentVersion?: number;
+  value: T;
+}
+
+// =============================================================================
+// Caching Client Implementation
+// =============================================================================
+
+class CachingClient implements OnePasswordClient {
+  private client: OnePasswordClient;
+  private store: CacheStore;
+  private tenant: Promise<string>;
+  private vaultTtl: number;
+  private itemTtl: number;
+
+  constructor(client: OnePasswordClient, options: CacheOptions) {
+    this.client = client;
+    this.store = options.store;
+    this.tenant = sha256Hex(options.connectToken).then((hash) => hash.slice(0, 32));
+    this.vaultTtl = options.vaultTtlSeconds ?? DEFAULT_VAULT_TTL_SECONDS;
+    this.itemTtl = options.itemTtlSeconds ?? DEFAULT_ITEM_TTL_SECONDS;
+  }
+
+  // ===========================================================================
+  // Cache Helpers
+  // ===========================================================================
+
+  private async key(...parts: string[]): Promise<string> {
+    return ['op', await this.tenant, ...parts.map(encodeURIComponent)].join(':');
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    try {
+      const raw = await this.store.get(key);
+      return raw === undefined ? undefined : (JSON.parse(raw) as T);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    try {
+      await this.store.put(key, JSON.stringify(value), ttlSeconds);
+    } catch {
+      // Caching is best-effort
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    try {
+      await this.store.delete(key);
+    } catch {
+      // Caching is best-effort
+    }
+  }
+
+  /**
+   * Current content version of a vault (from cache when fresh)
+   */
+  private async contentVersion(
+    vaultId: string,
+    options?: RequestOptions
+  ): Promise<number | undefined> {
+    return (await this.getVault(vaultId, options)).contentVersion;
+  }
+
+  /**
+   * Read a vault-versioned entry, fetching and storing it when stale
+   */
+  private async versioned<T>(
+    vaultId: string,
+    key: string,
+    fetch: () => Promise<T>,
+    options?: RequestOptions
+  ): Promise<T> {
+    const contentVersion = await this.contentVersion(vaultId, options);
+    const cached = await this.read<VersionedEntry<T>>(key);
+    if (cached && contentVersion !== undefined && cached.contentVersion === contentVersion) {
+      return cached.value;
+    }
+
+    const value = await fetch();
+    if (contentVersion !== undefined) {
+      await this.write(key, { contentVersion, value }, this.itemTtl);
+    }
+    return value;
+  }
+
+  /**
+   * Generation of the cached vault lists. Lists are keyed by generation, so
+   * dropping it retires every cached list, filtered or not.
+   */
+  private async vaultListGeneration(): Promise<string> {
+    const key = await this.key('vaults-generation');
+    const cached = await this.read<string>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const generation = crypto.randomUUID();
+    await this.write(key, generation, this.itemTtl);
+    return generation;
+  }
+
+  /**
+   * Drop cached state affected by a write to an item
+   */
+  private async invalidate(vaultId: string, itemId?: string): Promise<void> {
+    await this.remove(await this.key('vault', vaultId));
+    await this.remove(await this.key('vaults-generation'));
+    if (itemId) {
+      await this.remove(await this.key('item', vaultId, itemId));
+    }
+  }
+
+  // ===========================================================================
+  // Connection & Health (not cached)
+  // ===========================================================================
+
+  testConnection(options?: RequestOptions): Promise<{ connected: boolean; message: string }> {
+    return this.client.testConnection(options);
+  }
+
+  getHealth(options?: RequestOptions): Promise<ServerHealth> {
+    return this.client.getHealth(options);
+  }
+
+  heartbeat(options?: RequestOptions): Promise<string> {
+    return this.client.heartbeat(options);
+  }
+
+  // ===========================================================================
+  // Vaults
+  // ===========================================================================
+
+  async listVaults(filter?: string, options?: RequestOptions): Promise<Vault[]> {
+    if (options?.noCache) {
+      return this.client.listVaults(filter, options);
+    }
+
+    const generation = await this.vaultListGeneration();
+    const key = filter
+      ? await this.key('vaults', generation, await sha256Hex(filter))
+      : await this.key('vaults', generation);
+    const cached = await this.read<Vault[]>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const vaults = await this.client.listVaults(filter, options);
+    await this.write(key, vaults, this.vaultTtl);
+    return vaults;
+  }
+
+  async getVault(vaultId: string, options?: RequestOptions): Promise<Vault> {
+    if (options?.noCache) {
+      return this.client.getVault(vaultId, options);
+    }
+
+    const key = await this.key('vault', vaultId);
+    const cached = await this.read<Vault>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const vault = await this.client.getVault(vaultId, options);
+    await this.write(key, vault, this.vaultTtl);
+    return vault;
+  }
+
+  // ===========================================================================
+  // Items
+  // ===========================================================================
+
+  async listItems(vaultId: string, filter?: string, options?: RequestOptions): Promise<Item[]> {
+    if (options?.noCache) {
+      return this.client.listItems(vaultId, filter, options);
+    }
+
+    const key = filter
+      ? await this.key('items', vaultId, await sha256Hex(filter))
+      : await this.key('items', vaultId);
+    return this.versioned(
+      vaultId,
+      key,
+      () => this.client.listItems(vaultId, filter, options),
+      options
+    );
+  }
+
+  async getItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<Item> {
+    if (options?.noCache) {
+      return this.client.getItem(vaultId, itemId, options);
+    }
+
+    const key = await this.key('item', vaultId, itemId);
+    const contentVersion = await this.contentVersion(vaultId, options);
+    const cached = await this.read<VersionedEntry<Item>>(key);
+
+    if (cached && contentVersion !== undefined) {
+      if (cached.contentVersion === contentVersion) {
+        return cached.value;
+      }
+
+      // The vault changed, but a current listing may show this item did not
+      if (cached.value.version !== undefined) {
+        const listing = await this.read<VersionedEntry<Item[]>>(await this.key('items', vaultId));
+        const listed = listing?.value.find((i) => i.id === itemId);
+        if (
+          listing?.contentVersion === contentVersion &&
+          listed?.version === cached.value.version
+        ) {
+          await this.write(key, { contentVersion, value: cached.value }, this.itemTtl);
+          return cached.value;
+        }
+      }
+    }
+
+    const item = await this.client.getItem(vaultId, itemId, options);
+    if (contentVersion !== undefined) {
+      await this.write(key, { contentVersion, value: item }, this.itemTtl);
+    }
+    return item;
+  }
+
+  async createItem(
+    vaultId: string,
+    item: ItemCreateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
+    const created = await this.client.createItem(vaultId, item, options);
+    await this.invalidate(vaultId);
+    return created;
+  }
+
+  async updateItem(
+    vaultId: string,
+    itemId: string,
+    item: ItemUpdateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
+    try {
+      return await this.client.updateItem(vaultId, itemId, item, options);
+    } finally {
+      await this.invalidate(vaultId, itemId);
+    }
+  }
+
+  async patchItem(
+    vaultId: string,
+    itemId: string,
+    operations: JsonPatchOperation[],
+    options?: RequestOptions
+  ): Promise<Item> {
+    try {
+      return await this.client.patchItem(vaultId, itemId, operations, options);
+    } finally {
+      await this.invalidate(vaultId, itemId);
+    }
+  }
+
+  async deleteItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<void> {
+    try {
+      await this.client.deleteItem(vaultId, itemId, options);
+    } finally {
+      await this.invalidate(vaultId, itemId);
+    }
+  }
+
+  // ===========================================================================
+  // Files & Activity (not cached)
+  // ===========================================================================
+
+  listFiles(
+    vaultId: string,
+    itemId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile[]> {
+    return this.client.listFiles(vaultId, itemId, inlineContent, options);
+  }
+
+  getFile(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile> {
+    return this.client.getFile(vaultId, itemId, fileId, inlineContent, options);
+  }
+
+  getFileContent(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    options?: RequestOptions
+  ): Promise<ArrayBuffer> {
+    return this.client.getFileContent(vaultId, itemId, fileId, options);
+  }
+
+  listActivity(
+    params?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<APIRequest>> {
+    return this.client.listActivity(params, options);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Wrap a 1Password Connect client with a version-aware cache.
+ *
+ * @param client - 1Password Connect client instance
+ * @param options - Cache store, tenant token and TTLs
+ */
+export function createCachingClient(
+  client: OnePasswordClient,
+  options: CacheOptions
+): OnePasswordClient {
+  return new CachingClient(client, options);
+}
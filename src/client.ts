@@ -20,47 +20,164 @@ import type {
   Vault,
 } from './types/entities.js';
 import type { TenantCredentials } from './types/env.js';
+import { sleep } from './utils/concurrency.js';
 import {
   AuthenticationError,
   AuthorizationError,
+  isRetryableError,
   NotFoundError,
   OnePasswordApiError,
   RateLimitError,
+  TimeoutError,
 } from './utils/errors.js';
 
 // =============================================================================
 // 1Password Connect Client Interface
 // =============================================================================
 
+/**
+ * Per-call request options
+ */
+export interface RequestOptions {
+  /** Abort signal (e.g. from the MCP request) that cancels the upstream fetch */
+  signal?: AbortSignal;
+  /** Skip any cache and read from Connect (e.g. for version checks) */
+  noCache?: boolean;
+}
+
 export interface OnePasswordClient {
   // Connection
-  testConnection(): Promise<{ connected: boolean; message: string }>;
+  testConnection(options?: RequestOptions): Promise<{ connected: boolean; message: string }>;
 
   // Health & Monitoring
-  getHealth(): Promise<ServerHealth>;
-  heartbeat(): Promise<string>;
+  getHealth(options?: RequestOptions): Promise<ServerHealth>;
+  heartbeat(options?: RequestOptions): Promise<string>;
 
   // Vaults
-  listVaults(filter?: string): Promise<Vault[]>;
-  getVault(vaultId: string): Promise<Vault>;
+  listVaults(filter?: string, options?: RequestOptions): Promise<Vault[]>;
+  getVault(vaultId: string, options?: RequestOptions): Promise<Vault>;
 
   // Items
-  listItems(vaultId: string, filter?: string): Promise<Item[]>;
-  getItem(vaultId: string, itemId: string): Promise<Item>;
-  createItem(vaultId: string, item: ItemCreateInput): Promise<Item>;
-  updateItem(vaultId: string, itemId: string, item: ItemUpdateInput): Promise<Item>;
-  patchItem(vaultId: string, itemId: string, operations: JsonPatchOperation[]): Promise<Item>;
-  deleteItem(vaultId: string, itemId: string): Promise<void>;
+  listItems(vaultId: string, filter?: string, options?: RequestOptions): Promise<Item[]>;
+  getItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<Item>;
+  createItem(vaultId: string, item: ItemCreateInput, options?: RequestOptions): Promise<Item>;
+  updateItem(
+    vaultId: string,
+    itemId: string,
+    item: ItemUpdateInput,
+    options?: RequestOptions
+  ): Promise<Item>;
+  patchItem(
+    vaultId: string,
+    itemId: string,
+    operations: JsonPatchOperation[],
+    options?: RequestOptions
+  ): Promise<Item>;
+  deleteItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<void>;
 
   // Files
-  listFiles(vaultId: string, itemId: string, inlineContent?: boolean): Promise<ItemFile[]>;
-  getFile(vaultId: string, itemId: string, fileId: string, inlineContent?: boolean): Promise<ItemFile>;
-  getFileContent(vaultId: string, itemId: string, fileId: string): Promise<ArrayBuffer>;
+  listFiles(
+    vaultId: string,
+    itemId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile[]>;
+  getFile(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile>;
+  getFileContent(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    options?: RequestOptions
+  ): Promise<ArrayBuffer>;
 
   // Activity
-  listActivity(params?: PaginationParams): Promise<PaginatedResponse<APIRequest>>;
+  listActivity(
+    params?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<APIRequest>>;
+}
+
+// =============================================================================
+// Retry Policy
+// =============================================================================
+
+/**
+ * Retry behaviour for transient Connect failures (429, 502, 503, 504 and network errors)
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Total time budget for all attempts in milliseconds */
+  totalBudgetMs: number;
+  /** Also retry non-idempotent methods (POST, PATCH) */
+  retryNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  totalBudgetMs: 20000,
+  retryNonIdempotent: false,
+};
+
+// =============================================================================
+// Timeouts
+// =============================================================================
+
+/**
+ * Per-attempt timeouts for Connect operations
+ */
+export interface TimeoutPolicy {
+  /** Timeout for regular API calls in milliseconds */
+  defaultMs: number;
+  /** Timeout for health and heartbeat checks in milliseconds */
+  healthMs: number;
+  /** Timeout for file content downloads in milliseconds */
+  fileContentMs: number;
+}
+
+export const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = {
+  defaultMs: 10000,
+  healthMs: 5000,
+  fileContentMs: 60000,
+};
+
+/** Page size Connect uses for /activity when no limit is given */
+export const DEFAULT_ACTIVITY_LIMIT = 50;
+
+/**
+ * Options for creating a Connect client
+ */
+export interface ClientOptions {
+  /** Overrides for the default retry policy */
+  retry?: Partial<RetryPolicy>;
+  /** Overrides for the default timeouts */
+  timeouts?: Partial<TimeoutPolicy>;
 }
 
+/**
+ * Internal options for a single Connect call
+ */
+interface CallOptions extends RequestOptions {
+  /** Timeout for each attempt in milliseconds */
+  timeoutMs?: number;
+  /** Entity type reported in not-found errors */
+  entityType?: string;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
 // =============================================================================
 // 1Password Connect Client Implementation
 // =============================================================================
@@ -68,12 +185,16 @@ export interface OnePasswordClient {
 class OnePasswordClientImpl implements OnePasswordClient {
   private credentials: TenantCredentials;
   private baseUrl: string;
+  private retryPolicy: RetryPolicy;
+  private timeouts: TimeoutPolicy;
 
-  constructor(credentials: TenantCredentials) {
+  constructor(credentials: TenantCredentials, options: ClientOptions = {}) {
     this.credentials = credentials;
     // Connect server URL with /v1 prefix
     const host = credentials.connectHost?.replace(/\/$/, '') || 'http://localhost:8080';
     this.baseUrl = `${host}/v1`;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.timeouts = { ...DEFAULT_TIMEOUT_POLICY, ...options.timeouts };
   }
 
   // ===========================================================================
@@ -93,52 +214,163 @@ class OnePasswordClientImpl implements OnePasswordClient {
     };
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  /**
+   * Send a request, retrying transient failures according to the retry policy.
+   * Resolves with a successful response; HTTP errors are thrown as typed errors
+   * carrying the number of retries made.
+   *
+   * Each attempt is bounded by a timeout, clamped to what remains of the total
+   * budget, and the caller's abort signal cancels both in-flight fetches and
+   * backoff waits.
+   */
+  private async send(
+    endpoint: string,
+    init: RequestInit = {},
+    call: CallOptions = {}
+  ): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
+    const policy = this.retryPolicy;
+    const method = (init.method || 'GET').toUpperCase();
+    const canRetry = IDEMPOTENT_METHODS.has(method) || policy.retryNonIdempotent;
+    const deadline = Date.now() + policy.totalBudgetMs;
+    const timeoutMs = call.timeoutMs ?? this.timeouts.defaultMs;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
-      },
-    });
+    for (let retries = 0; ; retries++) {
+      try {
+        throwIfCancelled(call.signal);
+
+        // An attempt never runs past the total budget
+        const attemptMs = Math.min(timeoutMs, deadline - Date.now());
+        if (attemptMs <= 0) {
+          throw new TimeoutError(
+            `Request to ${endpoint} exceeded its ${policy.totalBudgetMs}ms budget`,
+            policy.totalBudgetMs
+          );
+        }
+        const timeout = AbortSignal.timeout(attemptMs);
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            ...init,
+            headers: {
+              ...this.getAuthHeaders(),
+              ...(init.headers || {}),
+            },
+            signal: call.signal ? AbortSignal.any([call.signal, timeout]) : timeout,
+          });
+        } catch (error) {
+          throwIfCancelled(call.signal);
+          if (timeout.aborted) {
+            throw new TimeoutError(
+              `Request to ${endpoint} timed out after ${attemptMs}ms`,
+              attemptMs
+            );
+          }
+          throw new OnePasswordApiError(
+            `Network error: ${error instanceof Error ? error.message : String(error)}`,
+            undefined,
+            'NETWORK_ERROR',
+            true
+          );
+        }
+
+        if (response.ok) {
+          return response;
+        }
+        throw await this.toError(response, endpoint, call.entityType ?? 'Resource');
+      } catch (error) {
+        const delay = this.retryDelay(error, retries);
+        if (canRetry && delay !== undefined && Date.now() + delay < deadline) {
+          await sleep(delay, call.signal);
+          // The wait can overrun the budget; then the last error stands
+          if (Date.now() < deadline) {
+            continue;
+          }
+        }
+        if (error instanceof OnePasswordApiError) {
+          error.retries = retries;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the error should not be retried
+   */
+  private retryDelay(error: unknown, retries: number): number | undefined {
+    const policy = this.retryPolicy;
+    if (retries >= policy.maxRetries || !isRetryableError(error)) {
+      return undefined;
+    }
 
+    // Exponential backoff with equal jitter
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retries);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    // Honor Retry-After when the server asks for a longer wait
+    if (error instanceof RateLimitError) {
+      return Math.max(delay, error.retryAfterSeconds * 1000);
+    }
+    return delay;
+  }
+
+  /**
+   * Map an unsuccessful response to a typed error
+   */
+  private async toError(
+    response: Response,
+    endpoint: string,
+    entityType: string
+  ): Promise<OnePasswordApiError> {
     // Handle rate limiting
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
+      return new RateLimitError(
+        'Rate limit exceeded',
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
     // Handle authentication errors
     if (response.status === 401) {
-      throw new AuthenticationError('Authentication failed. Check your Connect token.');
+      return new AuthenticationError('Authentication failed. Check your Connect token.');
     }
 
     // Handle authorization errors
     if (response.status === 403) {
-      throw new AuthorizationError(
+      return new AuthorizationError(
         'Authorization failed. Check your service account permissions.'
       );
     }
 
     // Handle not found
     if (response.status === 404) {
-      throw new NotFoundError('Resource', endpoint);
+      return new NotFoundError(entityType, endpoint);
     }
 
     // Handle other errors
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let message = `API error: ${response.status}`;
-      try {
-        const errorJson = JSON.parse(errorBody);
-        message = errorJson.message || errorJson.error || message;
-      } catch {
-        // Use default message
-      }
-      throw new OnePasswordApiError(message, response.status);
+    const errorBody = await response.text();
+    let message = `API error: ${response.status}`;
+    try {
+      const errorJson = JSON.parse(errorBody);
+      message = errorJson.message || errorJson.error || message;
+    } catch {
+      // Use default message
     }
+    return new OnePasswordApiError(
+      message,
+      response.status,
+      undefined,
+      RETRYABLE_STATUSES.has(response.status)
+    );
+  }
+
+  private async request<T>(
+    endpoint: string,
+    init: RequestInit = {},
+    call: CallOptions = {}
+  ): Promise<T> {
+    const response = await this.send(endpoint, init, call);
 
     // Handle 204 No Content
     if (response.status === 204) {
@@ -148,30 +380,12 @@ class OnePasswordClientImpl implements OnePasswordClient {
     return response.json() as Promise<T>;
   }
 
-  private async requestRaw(endpoint: string, options: RequestInit = {}): Promise<ArrayBuffer> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new AuthenticationError('Authentication failed. Check your Connect token.');
-      }
-      if (response.status === 403) {
-        throw new AuthorizationError('Authorization failed. Check your service account permissions.');
-      }
-      if (response.status === 404) {
-        throw new NotFoundError('File', endpoint);
-      }
-      throw new OnePasswordApiError(`API error: ${response.status}`, response.status);
-    }
-
+  private async requestRaw(
+    endpoint: string,
+    init: RequestInit = {},
+    call: CallOptions = {}
+  ): Promise<ArrayBuffer> {
+    const response = await this.send(endpoint, init, { entityType: 'File', ...call });
     return response.arrayBuffer();
   }
 
@@ -179,9 +393,9 @@ class OnePasswordClientImpl implements OnePasswordClient {
   // Connection
   // ===========================================================================
 
-  async testConnection(): Promise<{ connected: boolean; message: string }> {
+  async testConnection(options?: RequestOptions): Promise<{ connected: boolean; message: string }> {
     try {
-      const health = await this.getHealth();
+      const health = await this.getHealth(options);
       return {
         connected: true,
         message: `Successfully connected to 1Password Connect server (${health.name} v${health.version})`,
@@ -198,20 +412,20 @@ class OnePasswordClientImpl implements OnePasswordClient {
   // Health & Monitoring
   // ===========================================================================
 
-  async getHealth(): Promise<ServerHealth> {
-    return this.request<ServerHealth>('/health');
+  async getHealth(options?: RequestOptions): Promise<ServerHealth> {
+    return this.request<ServerHealth>(
+      '/health',
+      {},
+      { ...options, timeoutMs: this.timeouts.healthMs }
+    );
   }
 
-  async heartbeat(): Promise<string> {
-    const url = `${this.baseUrl}/heartbeat`;
-    const response = await fetch(url, {
-      headers: this.getAuthHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new OnePasswordApiError(`Heartbeat failed: ${response.status}`, response.status);
-    }
-
+  async heartbeat(options?: RequestOptions): Promise<string> {
+    const response = await this.send(
+      '/heartbeat',
+      {},
+      { ...options, timeoutMs: this.timeouts.healthMs }
+    );
     return response.text();
   }
 
@@ -219,25 +433,25 @@ class OnePasswordClientImpl implements OnePasswordClient {
   // Vaults
   // ===========================================================================
 
-  async listVaults(filter?: string): Promise<Vault[]> {
+  async listVaults(filter?: string, options?: RequestOptions): Promise<Vault[]> {
     const queryParams = new URLSearchParams();
     if (filter) {
       queryParams.set('filter', filter);
     }
     const query = queryParams.toString();
     const endpoint = query ? `/vaults?${query}` : '/vaults';
-    return this.request<Vault[]>(endpoint);
+    return this.request<Vault[]>(endpoint, {}, options);
   }
 
-  async getVault(vaultId: string): Promise<Vault> {
-    return this.request<Vault>(`/vaults/${encodeURIComponent(vaultId)}`);
+  async getVault(vaultId: string, options?: RequestOptions): Promise<Vault> {
+    return this.request<Vault>(`/vaults/${encodeURIComponent(vaultId)}`, {}, options);
   }
 
   // ===========================================================================
   // Items
   // ===========================================================================
 
-  async listItems(vaultId: string, filter?: string): Promise<Item[]> {
+  async listItems(vaultId: string, filter?: string, options?: RequestOptions): Promise<Item[]> {
     const queryParams = new URLSearchParams();
     if (filter) {
       queryParams.set('filter', filter);
@@ -246,28 +460,43 @@ class OnePasswordClientImpl implements OnePasswordClient {
     const endpoint = query
       ? `/vaults/${encodeURIComponent(vaultId)}/items?${query}`
       : `/vaults/${encodeURIComponent(vaultId)}/items`;
-    return this.request<Item[]>(endpoint);
+    return this.request<Item[]>(endpoint, {}, options);
   }
 
-  async getItem(vaultId: string, itemId: string): Promise<Item> {
+  async getItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<Item> {
     return this.request<Item>(
-      `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}`
+      `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}`,
+      {},
+      options
     );
   }
 
-  async createItem(vaultId: string, item: ItemCreateInput): Promise<Item> {
+  async createItem(
+    vaultId: string,
+    item: ItemCreateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
     // Ensure vault ID is set
     const itemWithVault = {
       ...item,
       vault: { id: vaultId },
     };
-    return this.request<Item>(`/vaults/${encodeURIComponent(vaultId)}/items`, {
-      method: 'POST',
-      body: JSON.stringify(itemWithVault),
-    });
+    return this.request<Item>(
+      `/vaults/${encodeURIComponent(vaultId)}/items`,
+      {
+        method: 'POST',
+        body: JSON.stringify(itemWithVault),
+      },
+      options
+    );
   }
 
-  async updateItem(vaultId: string, itemId: string, item: ItemUpdateInput): Promise<Item> {
+  async updateItem(
+    vaultId: string,
+    itemId: string,
+    item: ItemUpdateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
     // PUT replaces the entire item
     const itemWithIds = {
       ...item,
@@ -279,14 +508,16 @@ class OnePasswordClientImpl implements OnePasswordClient {
       {
         method: 'PUT',
         body: JSON.stringify(itemWithIds),
-      }
+      },
+      options
     );
   }
 
   async patchItem(
     vaultId: string,
     itemId: string,
-    operations: JsonPatchOperation[]
+    operations: JsonPatchOperation[],
+    options?: RequestOptions
   ): Promise<Item> {
     return this.request<Item>(
       `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}`,
@@ -296,16 +527,18 @@ class OnePasswordClientImpl implements OnePasswordClient {
           'Content-Type': 'application/json-patch+json',
         },
         body: JSON.stringify(operations),
-      }
+      },
+      options
     );
   }
 
-  async deleteItem(vaultId: string, itemId: string): Promise<void> {
+  async deleteItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<void> {
     await this.request<void>(
       `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}`,
       {
         method: 'DELETE',
-      }
+      },
+      options
     );
   }
 
@@ -316,7 +549,8 @@ class OnePasswordClientImpl implements OnePasswordClient {
   async listFiles(
     vaultId: string,
     itemId: string,
-    inlineContent?: boolean
+    inlineContent?: boolean,
+    options?: RequestOptions
   ): Promise<ItemFile[]> {
     const queryParams = new URLSearchParams();
     if (inlineContent !== undefined) {
@@ -326,14 +560,15 @@ class OnePasswordClientImpl implements OnePasswordClient {
     const endpoint = query
       ? `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files?${query}`
       : `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files`;
-    return this.request<ItemFile[]>(endpoint);
+    return this.request<ItemFile[]>(endpoint, {}, options);
   }
 
   async getFile(
     vaultId: string,
     itemId: string,
     fileId: string,
-    inlineContent?: boolean
+    inlineContent?: boolean,
+    options?: RequestOptions
   ): Promise<ItemFile> {
     const queryParams = new URLSearchParams();
     if (inlineContent !== undefined) {
@@ -343,12 +578,19 @@ class OnePasswordClientImpl implements OnePasswordClient {
     const endpoint = query
       ? `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files/${encodeURIComponent(fileId)}?${query}`
       : `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files/${encodeURIComponent(fileId)}`;
-    return this.request<ItemFile>(endpoint);
+    return this.request<ItemFile>(endpoint, {}, options);
   }
 
-  async getFileContent(vaultId: string, itemId: string, fileId: string): Promise<ArrayBuffer> {
+  async getFileContent(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    options?: RequestOptions
+  ): Promise<ArrayBuffer> {
     return this.requestRaw(
-      `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files/${encodeURIComponent(fileId)}/content`
+      `/vaults/${encodeURIComponent(vaultId)}/items/${encodeURIComponent(itemId)}/files/${encodeURIComponent(fileId)}/content`,
+      {},
+      { ...options, timeoutMs: this.timeouts.fileContentMs }
     );
   }
 
@@ -356,27 +598,68 @@ class OnePasswordClientImpl implements OnePasswordClient {
   // Activity
   // ===========================================================================
 
-  async listActivity(params?: PaginationParams): Promise<PaginatedResponse<APIRequest>> {
+  async listActivity(
+    params?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<APIRequest>> {
+    const limit = params?.limit ?? DEFAULT_ACTIVITY_LIMIT;
+    const offset = params?.offset ?? 0;
+
+    // Fetch one extra entry to learn whether another page exists
     const queryParams = new URLSearchParams();
-    if (params?.limit) {
-      queryParams.set('limit', String(params.limit));
-    }
-    if (params?.offset) {
-      queryParams.set('offset', String(params.offset));
+    queryParams.set('limit', String(limit + 1));
+    if (offset) {
+      queryParams.set('offset', String(offset));
     }
-    const query = queryParams.toString();
-    const endpoint = query ? `/activity?${query}` : '/activity';
-    const items = await this.request<APIRequest[]>(endpoint);
+    const entries = await this.request<APIRequest[]>(
+      `/activity?${queryParams.toString()}`,
+      {},
+      options
+    );
 
     // The API returns an array, we wrap it in pagination format
+    const items = entries.slice(0, limit);
+    const hasMore = entries.length > limit;
     return {
       items,
       count: items.length,
-      hasMore: false, // The API doesn't provide pagination info directly
+      hasMore,
+      nextOffset: hasMore ? offset + items.length : undefined,
     };
   }
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds.
+ * Without a header the backoff delay alone applies.
+ */
+function parseRetryAfter(header: string | null): number {
+  if (!header) {
+    return 0;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? 0 : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Throw a non-retryable error when the caller has cancelled the request
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OnePasswordApiError('Request was cancelled', undefined, 'CANCELLED', false);
+  }
+}
+
 // =============================================================================
 // Factory Function
 // =============================================================================
@@ -388,7 +671,11 @@ class OnePasswordClientImpl implements OnePasswordClient {
  * allowing a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Optional client behaviour such as the retry policy
  */
-export function createOnePasswordClient(credentials: TenantCredentials): OnePasswordClient {
-  return new OnePasswordClientImpl(credentials);
+export function createOnePasswordClient(
+  credentials: TenantCredentials,
+  options?: ClientOptions
+): OnePasswordClient {
+  return new OnePasswordClientImpl(credentials, options);
 }
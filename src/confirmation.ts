@@ -0,0 +1,155 @@
+/**
+ * Confirmation Tokens
+ *
+ * Two-step confirmation for destructive tools. The first call returns a
+ * summary and a short-lived token; the action only runs when the call is
+ * repeated with that token.
+ *
+ * Tokens are HMAC-SHA256 signed with a key derived from the tenant's Connect
+ * token (and CONFIRMATION_SECRET when set), and bind the action, the item, its
+ * version and a digest of the requested change. Any edit to the item in the
+ * meantime bumps its version and invalidates the token.
+ *
+ * MCP elicitation is not used: the server is stateless, so it never learns the
+ * client's capabilities and cannot send requests back to the client.
+ */
+
+import { sha256Hex } from './cache/encryption.js';
+import { type Env, getEnvNumber } from './types/env.js';
+import { ValidationError } from './utils/errors.js';
+
+/** Default token lifetime */
+const DEFAULT_CONFIRMATION_TTL_SECONDS = 300;
+
+/**
+ * What a token authorizes
+ */
+export interface ConfirmationSubject {
+  action: 'delete' | 'update' | 'move';
+  vaultId: string;
+  itemId: string;
+  /** Item version the confirmation was issued for */
+  version?: number;
+  /** Digest of the requested change (see digestChange) */
+  digest?: string;
+}
+
+export interface IssuedConfirmation {
+  confirmationToken: string;
+  /** ISO 8601 expiry */
+  expiresAt: string;
+}
+
+export interface Confirmations {
+  /** Issue a token for a subject */
+  issue(subject: ConfirmationSubject): Promise<IssuedConfirmation>;
+  /** Throw a ValidationError unless the token was issued for this subject and is unexpired */
+  verify(token: string, subject: ConfirmationSubject): Promise<void>;
+}
+
+interface TokenPayload extends ConfirmationSubject {
+  /** Expiry (Unix seconds) */
+  exp: number;
+}
+
+class ConfirmationsImpl implements Confirmations {
+  private key: Promise<CryptoKey>;
+  private ttlSeconds: number;
+
+  constructor(secret: string, ttlSeconds: number) {
+    this.key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  async issue(subject: ConfirmationSubject): Promise<IssuedConfirmation> {
+    const exp = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({ ...subject, exp })));
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      await this.key,
+      new TextEncoder().encode(payload)
+    );
+    return {
+      confirmationToken: `${payload}.${toBase64Url(new Uint8Array(signature))}`,
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+
+  async verify(token: string, subject: ConfirmationSubject): Promise<void> {
+    const [payload, signature] = token.split('.');
+    let claims: TokenPayload;
+    try {
+      const valid = await crypto.subtle.verify(
+        'HMAC',
+        await this.key,
+        fromBase64Url(signature ?? ''),
+        new TextEncoder().encode(payload)
+      );
+      if (!valid) {
+        throw new Error('bad signature');
+      }
+      claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as TokenPayload;
+    } catch {
+      throw new ValidationError('Invalid confirmation token');
+    }
+
+    if (claims.exp * 1000 < Date.now()) {
+      throw new ValidationError(
+        'Confirmation token has expired; call again without a token to get a new one'
+      );
+    }
+    const mismatch = (['action', 'vaultId', 'itemId', 'version', 'digest'] as const).find(
+      (key) => claims[key] !== subject[key]
+    );
+    if (mismatch) {
+      throw new ValidationError(
+        mismatch === 'version'
+          ? 'The item changed since the confirmation was issued; review it and confirm again'
+          : `Confirmation token was issued for a different ${mismatch === 'digest' ? 'change' : mismatch}`
+      );
+    }
+  }
+}
+
+/**
+ * Create the confirmation helper for a tenant
+ *
+ * @param connectToken - Tenant Connect token (keys the HMAC)
+ * @param env - Worker environment (CONFIRMATION_SECRET, CONFIRMATION_TTL_SECONDS)
+ */
+export function createConfirmations(connectToken: string, env: Env): Confirmations {
+  return new ConfirmationsImpl(
+    `primrose-mcp-1password/confirmation:${env.CONFIRMATION_SECRET ?? ''}:${connectToken}`,
+    getEnvNumber(env, 'CONFIRMATION_TTL_SECONDS', DEFAULT_CONFIRMATION_TTL_SECONDS)
+  );
+}
+
+/**
+ * Digest of a requested change, so a token cannot authorize a different one
+ */
+export async function digestChange(change: unknown): Promise<string> {
+  return sha256Hex(JSON.stringify(change));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,198 @@
+/**
+ * Dry Runs
+ *
+ * Previews of item mutations. Each preview reads the current state from
+ * Connect, computes the outcome locally (applying JSON Patch operations with
+ * the local RFC 6902 implementation) and never calls a write endpoint.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type { TransferPlan } from './transfer.js';
+import type {
+  Item,
+  ItemCreateInput,
+  ItemFile,
+  ItemUpdateInput,
+  JsonPatchOperation,
+} from './types/entities.js';
+import { diffItems, type ItemDiff, summarizeDiff } from './utils/diff.js';
+import { ValidationError } from './utils/errors.js';
+import { applyJsonPatch } from './utils/json-patch.js';
+import { assertVersion, summarizePatch } from './versioning.js';
+
+/**
+ * The outcome a mutation would have
+ */
+export interface DryRunResult {
+  dryRun: true;
+  action: 'create' | 'update' | 'patch' | 'archive' | 'delete' | 'copy' | 'move';
+  /** The item after the change (for delete, the item that would be removed) */
+  item: Item;
+  /** What the change would do (secret values are never included) */
+  diff?: ItemDiff;
+  /** Attached files that would be removed (delete) or left behind (copy, move) */
+  files?: Array<Pick<ItemFile, 'id' | 'name' | 'size'>>;
+}
+
+/**
+ * Preview creating an item
+ */
+export async function previewCreate(
+  client: OnePasswordClient,
+  vaultId: string,
+  input: ItemCreateInput,
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const vault = await client.getVault(vaultId, options);
+  const item: Item = { ...input, id: '', vault: { id: vault.id, name: vault.name } };
+  validateItem(item);
+  return {
+    dryRun: true,
+    action: 'create',
+    item,
+    diff: diffItems({ title: '', category: item.category }, item),
+  };
+}
+
+/**
+ * Preview replacing an item
+ */
+export async function previewUpdate(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  input: ItemUpdateInput,
+  expectedVersion: number | undefined,
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+  const diff = diffItems(current, input);
+  assertVersion(current, expectedVersion, () => summarizeDiff(diff));
+
+  // PUT replaces the item: omitted collections are cleared, omitted scalars are kept
+  const item: Item = {
+    ...current,
+    title: input.title ?? current.title,
+    category: input.category ?? current.category,
+    favorite: input.favorite ?? current.favorite,
+    fields: input.fields,
+    sections: input.sections,
+    urls: input.urls,
+    tags: input.tags,
+  };
+  validateItem(item);
+  return { dryRun: true, action: 'update', item, diff };
+}
+
+/**
+ * Preview patching an item. Operations that fail throw a ValidationError
+ * naming the index of the failing operation.
+ */
+export async function previewPatch(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  operations: JsonPatchOperation[],
+  expectedVersion: number | undefined,
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+  assertVersion(current, expectedVersion, () => summarizePatch(current, operations));
+
+  const item = applyJsonPatch(current, operations);
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    throw new ValidationError('The patch does not produce an item object');
+  }
+  if (item.id !== current.id || item.vault?.id !== current.vault.id) {
+    throw new ValidationError('A patch cannot change the item id or vault');
+  }
+  validateItem(item);
+  return { dryRun: true, action: 'patch', item, diff: diffItems(current, item) };
+}
+
+/**
+ * Preview archiving an item
+ */
+export async function previewArchive(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  expectedVersion: number | undefined,
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+  assertVersion(current, expectedVersion, () => 'archive the item');
+  return { dryRun: true, action: 'archive', item: { ...current, state: 'ARCHIVED' } };
+}
+
+/**
+ * Preview copying or moving an item to another vault
+ */
+export async function previewTransfer(
+  client: OnePasswordClient,
+  plan: TransferPlan,
+  action: 'copy' | 'move',
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const preview = await previewCreate(client, plan.input.vault.id, plan.input, options);
+  return { ...preview, action, files: plan.files };
+}
+
+/**
+ * Preview deleting an item, including the files that would go with it
+ */
+export async function previewDelete(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  options?: RequestOptions
+): Promise<DryRunResult> {
+  const item = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+  const files = await client.listFiles(item.vault.id, item.id, false, options);
+  return {
+    dryRun: true,
+    action: 'delete',
+    item,
+    files: files.map(({ id, name, size }) => ({ id, name, size })),
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check the structure Connect relies on: a title, unique field and section
+ * IDs, and fields that only reference existing sections
+ */
+function validateItem(item: Item): void {
+  const problems: string[] = [];
+  if (!item.title?.trim()) {
+    problems.push('title is empty');
+  }
+
+  const sectionIds = new Set<string>();
+  for (const section of item.sections ?? []) {
+    if (sectionIds.has(section.id)) {
+      problems.push(`section id '${section.id}' is used more than once`);
+    }
+    sectionIds.add(section.id);
+  }
+
+  const fieldIds = new Set<string>();
+  for (const field of item.fields ?? []) {
+    if (field.id && fieldIds.has(field.id)) {
+      problems.push(`field id '${field.id}' is used more than once`);
+    }
+    fieldIds.add(field.id);
+    if (field.section && !sectionIds.has(field.section.id)) {
+      problems.push(
+        `field '${field.label ?? field.id}' references missing section '${field.section.id}'`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid item: ${problems.join('; ')}`, { problems });
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Item Export
+ *
+ * Renders items as CSV, JSON Lines (one Item object per line) or dotenv.
+ * Each page of an export renders independently and pages concatenate into a
+ * valid file: only the first CSV page carries the header row. CSV cells that a
+ * spreadsheet would evaluate as a formula are prefixed with a single quote.
+ *
+ * Sensitive values (see isSensitiveField) are replaced by op:// references
+ * unless secrets are requested explicitly, so a default export is safe to
+ * commit and can be resolved later with `op inject` or `op run`.
+ *
+ * dotenv variable names repeated within a page get a numeric suffix (_2, _3)
+ * and are reported as issues; pages cannot see each other's names.
+ */
+
+import type { Item, ItemField } from './types/entities.js';
+import { formatCsvRow } from './utils/csv.js';
+import { isSensitiveField } from './utils/masking.js';
+
+export type ExportFormat = 'csv' | 'json' | 'dotenv';
+
+export interface ExportOptions {
+  /** Write sensitive values instead of op:// references */
+  includeSecrets: boolean;
+  /** Start a new file (CSV: write the header row) */
+  first: boolean;
+  /**
+   * dotenv only: field label (or "item title/field label") to variable name.
+   * When given, only mapped fields are exported.
+   */
+  envMapping?: Record<string, string>;
+}
+
+/**
+ * One rendered page of an export
+ */
+export interface ExportPage {
+  content: string;
+  /** Problems that did not stop an item from being exported */
+  issues: Array<{ id: string; title: string; message: string }>;
+}
+
+/** CSV columns, in order */
+const CSV_COLUMNS = [
+  'id',
+  'title',
+  'category',
+  'vault',
+  'urls',
+  'username',
+  'password',
+  'otp',
+  'notes',
+  'tags',
+  'favorite',
+  'fields',
+  'updatedAt',
+] as const;
+
+/**
+ * Render one page of an export
+ */
+export function renderExport(
+  format: ExportFormat,
+  items: Item[],
+  options: ExportOptions
+): ExportPage {
+  switch (format) {
+    case 'csv':
+      return { content: renderCsv(items, options), issues: [] };
+    case 'json':
+      return {
+        content: items.map((item) => `${JSON.stringify(exportItem(item, options))}\n`).join(''),
+        issues: [],
+      };
+    case 'dotenv':
+      return renderDotenv(items, options);
+  }
+}
+
+/**
+ * A copy of the item with sensitive values replaced by op:// references
+ */
+function exportItem(item: Item, options: Pick<ExportOptions, 'includeSecrets'>): Item {
+  const { fields, ...rest } = item;
+  return {
+    ...rest,
+    fields: fields?.map(({ totp: _totp, ...field }) => ({
+      ...field,
+      value: exportValue(item, field, options),
+    })),
+  };
+}
+
+/**
+ * The op:// reference to a field, by vault, item, section and field ID
+ */
+function fieldReference(item: Item, field: ItemField): string {
+  const segments = [item.vault.id, item.id, field.section?.id, field.id].filter(
+    (segment): segment is string => Boolean(segment)
+  );
+  return `op://${segments.map(encodeURIComponent).join('/')}`;
+}
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+function renderCsv(items: Item[], options: ExportOptions): string {
+  const rows = items.map((item) => {
+    const fields = item.fields ?? [];
+    const byPurpose = (purpose: ItemField['purpose']) => fields.find((f) => f.purpose === purpose);
+    const otp = fields.find((f) => f.type === 'OTP');
+    const value = (field: ItemField | undefined) =>
+      field ? (exportValue(item, field, options) ?? '') : '';
+    const special = new Set([
+      byPurpose('USERNAME'),
+      byPurpose('PASSWORD'),
+      byPurpose('NOTES'),
+      otp,
+    ]);
+
+    const sections = new Map((item.sections ?? []).map((s) => [s.id, s.label ?? s.id]));
+    const others = fields
+      .filter((field) => !special.has(field) && field.value)
+      .map((field) => {
+        const section = field.section && sections.get(field.section.id);
+        const label = field.label ?? field.id;
+        return `${section ? `${section} / ` : ''}${label}: ${value(field)}`;
+      });
+
+    const columns: Record<(typeof CSV_COLUMNS)[number], string> = {
+      id: item.id,
+      title: item.title,
+      category: item.category,
+      vault: item.vault.name ?? item.vault.id,
+      urls: (item.urls ?? []).map((url) => url.href).join('\n'),
+      username: value(byPurpose('USERNAME')),
+      password: value(byPurpose('PASSWORD')),
+      otp: value(otp),
+      notes: value(byPurpose('NOTES')),
+      tags: (item.tags ?? []).join(';'),
+      favorite: item.favorite ? 'true' : 'false',
+      fields: others.join('\n'),
+      updatedAt: item.updatedAt ?? '',
+    };
+    return formatCsvRow(CSV_COLUMNS.map((column) => spreadsheetSafe(columns[column])));
+  });
+  return (options.first ? [formatCsvRow([...CSV_COLUMNS]), ...rows] : rows).join('');
+}
+
+function renderDotenv(items: Item[], options: ExportOptions): ExportPage {
+  const used = new Set<string>();
+  const issues: ExportPage['issues'] = [];
+  const blocks = items.flatMap((item) => {
+    const lines: string[] = [];
+    for (const field of item.fields ?? []) {
+      const label = field.label ?? field.id;
+      const name = options.envMapping
+        ? (options.envMapping[`${item.title}/${label}`] ?? options.envMapping[label])
+        : envName(`${item.title}_${label}`);
+      const value = exportValue(item, field, options);
+      if (name && value) {
+        const unique = uniqueName(name, used);
+        if (unique !== name) {
+          issues.push({
+            id: item.id,
+            title: item.title,
+            message: `Variable ${name} is already used; field '${label}' was written as ${unique}`,
+          });
+        }
+        lines.push(`${unique}=${quoteEnvValue(value)}`);
+      }
+    }
+    return lines.length > 0
+      ? [`# ${item.title.replace(/[\r\n]+/g, ' ')}\n${lines.join('\n')}\n`]
+      : [];
+  });
+  return { content: blocks.join('\n'), issues };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function exportValue(
+  item: Item,
+  field: ItemField,
+  options: Pick<ExportOptions, 'includeSecrets'>
+): string | undefined {
+  if (!field.value || options.includeSecrets || !isSensitiveField(field)) {
+    return field.value;
+  }
+  return fieldReference(item, field);
+}
+
+/**
+ * Prefix a cell that spreadsheets would read as a formula (=, +, -, @, tab or
+ * carriage return first) with a single quote, so it is shown as text
+ */
+function spreadsheetSafe(cell: string): string {
+  return /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+}
+
+/**
+ * Derive an environment variable name: upper case, with runs of other
+ * characters collapsed to underscores
+ */
+function envName(value: string): string {
+  const name = value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Claim a variable name, suffixing it (_2, _3, ...) when it is already taken
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * Double-quote a dotenv value, escaping what dotenv parsers would interpret
+ */
+function quoteEnvValue(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\r?\n/g, '\\n');
+  return `"${escaped}"`;
+}
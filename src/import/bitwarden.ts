@@ -0,0 +1,169 @@
+/**
+ * Bitwarden Importer
+ *
+ * Maps an unencrypted Bitwarden JSON export (personal or organization).
+ * Folders become tags; attachments and password history are not part of the
+ * export and are not imported.
+ */
+
+import type { ItemCategory } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+import type { ImportEntry, ImportField, ImportRow } from './types.js';
+
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: Array<{ id: string; name: string }>;
+  items?: BitwardenItem[];
+}
+
+interface BitwardenItem {
+  type: number;
+  name?: string;
+  notes?: string | null;
+  favorite?: boolean;
+  folderId?: string | null;
+  fields?: Array<{ name?: string | null; value?: string | null; type: number }>;
+  login?: {
+    username?: string | null;
+    password?: string | null;
+    totp?: string | null;
+    uris?: Array<{ uri?: string | null }> | null;
+  };
+  card?: Record<string, string | null>;
+  identity?: Record<string, string | null>;
+  sshKey?: Record<string, string | null>;
+}
+
+/** Bitwarden item types */
+const CATEGORIES: Record<number, ItemCategory> = {
+  1: 'LOGIN',
+  2: 'SECURE_NOTE',
+  3: 'CREDIT_CARD',
+  4: 'IDENTITY',
+  5: 'SSH_KEY',
+};
+
+/** Bitwarden custom field types (0 text, 1 hidden, 2 boolean; 3 linked is skipped) */
+const CUSTOM_FIELD_TYPES: Record<number, ImportField['type']> = {
+  0: 'STRING',
+  1: 'CONCEALED',
+  2: 'STRING',
+};
+
+/** Typed properties of cards, identities and SSH keys, as [property, label, type] */
+const TYPED_FIELDS: Record<string, Array<[string, string, ImportField['type']]>> = {
+  card: [
+    ['cardholderName', 'cardholder name', 'STRING'],
+    ['brand', 'type', 'STRING'],
+    ['number', 'number', 'CREDIT_CARD_NUMBER'],
+    ['expMonth', 'expiry month', 'STRING'],
+    ['expYear', 'expiry year', 'STRING'],
+    ['code', 'verification number', 'CONCEALED'],
+  ],
+  identity: [
+    ['title', 'title', 'STRING'],
+    ['firstName', 'first name', 'STRING'],
+    ['middleName', 'middle name', 'STRING'],
+    ['lastName', 'last name', 'STRING'],
+    ['username', 'username', 'STRING'],
+    ['company', 'company', 'STRING'],
+    ['email', 'email', 'EMAIL'],
+    ['phone', 'phone', 'PHONE'],
+    ['address1', 'address', 'STRING'],
+    ['address2', 'address line 2', 'STRING'],
+    ['address3', 'address line 3', 'STRING'],
+    ['city', 'city', 'STRING'],
+    ['state', 'state', 'STRING'],
+    ['postalCode', 'postal code', 'STRING'],
+    ['country', 'country', 'STRING'],
+    ['ssn', 'social security number', 'CONCEALED'],
+    ['passportNumber', 'passport number', 'CONCEALED'],
+    ['licenseNumber', 'license number', 'CONCEALED'],
+  ],
+  sshKey: [
+    ['privateKey', 'private key', 'SSHKEY'],
+    ['publicKey', 'public key', 'STRING'],
+    ['keyFingerprint', 'fingerprint', 'STRING'],
+  ],
+};
+
+/**
+ * Parse a Bitwarden JSON export
+ */
+export function parseBitwardenExport(data: string): ImportRow[] {
+  let parsed: BitwardenExport;
+  try {
+    parsed = JSON.parse(data) as BitwardenExport;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Invalid Bitwarden export: ${reason}`);
+  }
+  if (parsed.encrypted) {
+    throw new ValidationError(
+      'Encrypted Bitwarden exports cannot be imported; export as unencrypted JSON'
+    );
+  }
+  if (!Array.isArray(parsed.items)) {
+    throw new ValidationError('Invalid Bitwarden export: no items array');
+  }
+
+  const folders = new Map((parsed.folders ?? []).map((folder) => [folder.id, folder.name]));
+  return parsed.items.map((item, index) => {
+    const title = item.name?.trim() || undefined;
+    try {
+      return { row: index + 1, title, entry: toEntry(item, folders) };
+    } catch (error) {
+      return {
+        row: index + 1,
+        title,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toEntry(item: BitwardenItem, folders: Map<string, string>): ImportEntry {
+  const category = CATEGORIES[item.type];
+  if (!category) {
+    throw new Error(`unsupported Bitwarden item type ${item.type}`);
+  }
+  const title = item.name?.trim();
+  if (!title) {
+    throw new Error('title is empty');
+  }
+
+  const fields: ImportField[] = [];
+  for (const [key, typed] of Object.entries(TYPED_FIELDS)) {
+    const values = item[key as 'card' | 'identity' | 'sshKey'];
+    for (const [property, label, type] of values ? typed : []) {
+      const value = values?.[property];
+      if (value) {
+        fields.push({ label, value, type });
+      }
+    }
+  }
+  for (const field of item.fields ?? []) {
+    const type = CUSTOM_FIELD_TYPES[field.type];
+    if (type && field.value) {
+      fields.push({ label: field.name || 'field', value: field.value, type });
+    }
+  }
+
+  const folder = item.folderId ? folders.get(item.folderId) : undefined;
+  return {
+    title,
+    category,
+    username: item.login?.username || undefined,
+    password: item.login?.password || undefined,
+    totp: item.login?.totp || undefined,
+    notes: item.notes || undefined,
+    urls: (item.login?.uris ?? []).flatMap((uri) => (uri.uri ? [uri.uri] : [])),
+    tags: folder ? [folder] : [],
+    favorite: item.favorite,
+    fields,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * CSV Importer
+ *
+ * Maps CSV rows to entries through a caller-supplied column mapping, since
+ * every password manager names its columns differently.
+ */
+
+import { itemCategorySchema } from '../tools/schemas.js';
+import type { ItemCategory } from '../types/entities.js';
+import { parseCsv } from '../utils/csv.js';
+import { ValidationError } from '../utils/errors.js';
+import type { CsvMapping, ImportEntry, ImportRow } from './types.js';
+
+/** Common category names that differ from the ItemCategory values */
+const CATEGORY_ALIASES: Record<string, ItemCategory> = {
+  NOTE: 'SECURE_NOTE',
+  CARD: 'CREDIT_CARD',
+};
+
+/**
+ * Parse a CSV export with a header row
+ */
+export function parseCsvExport(
+  data: string,
+  mapping: CsvMapping,
+  defaultCategory: ItemCategory
+): ImportRow[] {
+  const [header, ...records] = parseCsv(data);
+  if (!header) {
+    return [];
+  }
+
+  const column = columnLookup(header, mapping);
+  return records.map((record, index) => {
+    const get = (name: string | undefined) => {
+      const value = name === undefined ? undefined : record[column(name)]?.trim();
+      return value || undefined;
+    };
+    const title = get(mapping.title);
+    try {
+      if (!title) {
+        throw new Error('title is empty');
+      }
+      const folder = get(mapping.folder);
+      const entry: ImportEntry = {
+        title,
+        category: parseCategory(get(mapping.category)) ?? defaultCategory,
+        username: get(mapping.username),
+        password: get(mapping.password),
+        notes: get(mapping.notes),
+        totp: get(mapping.totp),
+        urls: splitList(get(mapping.url), /\r?\n/),
+        tags: [...splitList(get(mapping.tags), /[,;]/), ...(folder ? [folder] : [])],
+        fields: (mapping.fields ?? []).flatMap(({ column: name, label, concealed }) => {
+          const value = get(name);
+          return value === undefined
+            ? []
+            : [{ label: label ?? name, value, type: concealed ? 'CONCEALED' : 'STRING' }];
+        }),
+      };
+      return { row: index + 1, title, entry };
+    } catch (error) {
+      return {
+        row: index + 1,
+        title,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resolve mapped column names to indexes (exact match first, then
+ * case-insensitive), failing on any that are missing
+ */
+function columnLookup(header: string[], mapping: CsvMapping): (name: string) => number {
+  const names = [
+    ...Object.entries(mapping)
+      .filter(([key, value]) => key !== 'fields' && typeof value === 'string')
+      .map(([, value]) => value as string),
+    ...(mapping.fields ?? []).map((field) => field.column),
+  ];
+
+  const indexes = new Map<string, number>();
+  const missing: string[] = [];
+  for (const name of names) {
+    let index = header.indexOf(name);
+    if (index === -1) {
+      index = header.findIndex((h) => h.trim().toLowerCase() === name.trim().toLowerCase());
+    }
+    if (index === -1) {
+      missing.push(name);
+    }
+    indexes.set(name, index);
+  }
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `CSV header has no column named ${missing.map((name) => `'${name}'`).join(', ')}`,
+      { missing, header }
+    );
+  }
+  return (name) => indexes.get(name) ?? -1;
+}
+
+function parseCategory(value: string | undefined): ItemCategory | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const normalized = value.toUpperCase().replace(/[\s-]+/g, '_');
+  const category = itemCategorySchema.safeParse(CATEGORY_ALIASES[normalized] ?? normalized);
+  if (!category.success) {
+    throw new Error(`unknown category '${value}'`);
+  }
+  return category.data as ItemCategory;
+}
+
+function splitList(value: string | undefined, separator: RegExp): string[] {
+  return (value ?? '')
+    .split(separator)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,169 @@
+/**
+ * Importers
+ *
+ * Parsers for other password managers' exports. Each produces ImportRows
+ * holding a neutral ImportEntry, which toCreateInput maps to a 1Password item.
+ * An entry that cannot be mapped carries an error instead, so one bad row does
+ * not fail the whole import.
+ */
+
+import type { Item, ItemCategory, ItemCreateInput, ItemField } from '../types/entities.js';
+import { ValidationError } from '../utils/errors.js';
+import { newId } from '../utils/item-edits.js';
+import { parseBitwardenExport } from './bitwarden.js';
+import { parseCsvExport } from './csv.js';
+import { parseKeePassExport } from './keepass.js';
+import type { CsvMapping, ImportEntry, ImportFormat, ImportRow } from './types.js';
+
+export type { CsvMapping, ImportEntry, ImportField, ImportFormat, ImportRow } from './types.js';
+
+/**
+ * Parse an export into rows
+ *
+ * @param mapping - Column mapping (required for CSV)
+ * @param defaultCategory - Category for CSV rows without one
+ */
+export function parseImport(
+  format: ImportFormat,
+  data: string,
+  mapping?: CsvMapping,
+  defaultCategory: ItemCategory = 'LOGIN'
+): ImportRow[] {
+  switch (format) {
+    case 'csv':
+      if (!mapping) {
+        throw new ValidationError('A column mapping is required for CSV imports');
+      }
+      return parseCsvExport(data, mapping, defaultCategory);
+    case 'bitwarden':
+      return parseBitwardenExport(data);
+    case 'keepass':
+      return parseKeePassExport(data);
+  }
+}
+
+/**
+ * Build the item to create for an entry.
+ *
+ * Username and password get their built-in purpose on LOGIN items (and the
+ * password on PASSWORD items); on other categories they are plain fields.
+ */
+export function toCreateInput(entry: ImportEntry, vaultId: string): ItemCreateInput {
+  const login = entry.category === 'LOGIN';
+  const fields: ItemField[] = [];
+  if (entry.username) {
+    fields.push({
+      ...(login ? { id: 'username', purpose: 'USERNAME' } : { id: newId() }),
+      type: 'STRING',
+      label: 'username',
+      value: entry.username,
+    });
+  }
+  if (entry.password) {
+    fields.push({
+      ...(login || entry.category === 'PASSWORD'
+        ? { id: 'password', purpose: 'PASSWORD' }
+        : { id: newId() }),
+      type: 'CONCEALED',
+      label: 'password',
+      value: entry.password,
+    });
+  }
+  if (entry.totp) {
+    fields.push({ id: newId(), type: 'OTP', label: 'one-time password', value: entry.totp });
+  }
+  for (const field of entry.fields) {
+    fields.push({ id: newId(), ...field });
+  }
+  if (entry.notes) {
+    fields.push({
+      id: 'notesPlain',
+      type: 'STRING',
+      purpose: 'NOTES',
+      label: 'notesPlain',
+      value: entry.notes,
+    });
+  }
+
+  const tags = [...new Map(entry.tags.map((tag) => [tag.toLowerCase(), tag])).values()];
+  return {
+    title: entry.title,
+    category: entry.category,
+    vault: { id: vaultId },
+    urls: entry.urls.map((href, index) => ({ href, primary: index === 0 })),
+    favorite: entry.favorite,
+    tags: tags.length > 0 ? tags : undefined,
+    fields,
+  };
+}
+
+// =============================================================================
+// Duplicate Detection
+// =============================================================================
+
+export interface DuplicateIndex {
+  /** Describe what the entry duplicates, if anything */
+  find(entry: Pick<ImportEntry, 'title' | 'urls'>): string | undefined;
+  /** Record an entry that is about to be imported */
+  add(entry: Pick<ImportEntry, 'title' | 'urls'>, description: string): void;
+}
+
+interface Known {
+  urls: Set<string>;
+  description: string;
+}
+
+class DuplicateIndexImpl implements DuplicateIndex {
+  private byTitle = new Map<string, Known[]>();
+
+  find(entry: Pick<ImportEntry, 'title' | 'urls'>): string | undefined {
+    const urls = entry.urls.map(normalizeUrl);
+    return this.byTitle
+      .get(normalizeTitle(entry.title))
+      ?.find(
+        (known) =>
+          (urls.length === 0 && known.urls.size === 0) || urls.some((url) => known.urls.has(url))
+      )?.description;
+  }
+
+  add(entry: Pick<ImportEntry, 'title' | 'urls'>, description: string): void {
+    const title = normalizeTitle(entry.title);
+    const known = this.byTitle.get(title) ?? [];
+    known.push({ urls: new Set(entry.urls.map(normalizeUrl)), description });
+    this.byTitle.set(title, known);
+  }
+}
+
+/**
+ * Index existing items for duplicate detection. An entry duplicates an item
+ * when the titles match (ignoring case) and either they share a URL or
+ * neither has one.
+ */
+export function createDuplicateIndex(items: Item[]): DuplicateIndex {
+  const index = new DuplicateIndexImpl();
+  for (const item of items) {
+    index.add(
+      { title: item.title, urls: (item.urls ?? []).map((url) => url.href) },
+      `existing item '${item.title}' (${item.id})`
+    );
+  }
+  return index;
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+/**
+ * Compare URLs by host (without www.) and path, ignoring scheme, query and a
+ * trailing slash
+ */
+function normalizeUrl(href: string): string {
+  const trimmed = href.trim().toLowerCase();
+  try {
+    const url = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`);
+    return `${url.host.replace(/^www\./, '')}${url.pathname.replace(/\/$/, '')}`;
+  } catch {
+    return trimmed;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * KeePass Importer
+ *
+ * Maps a KeePass 2.x XML export (also written by KeePassXC). The group path
+ * below the root group becomes a tag; entry history and the recycle bin are
+ * skipped. Attachments are not imported.
+ */
+
+import { ValidationError } from '../utils/errors.js';
+import { childElements, childText, parseXml, type XmlElement } from '../utils/xml.js';
+import type { ImportEntry, ImportField, ImportRow } from './types.js';
+
+/** String keys with a dedicated place on the item */
+const STANDARD_KEYS = new Set(['Title', 'UserName', 'Password', 'URL', 'Notes']);
+
+/** String keys that hold a TOTP secret (KeePassXC, TrayTOTP) */
+const TOTP_KEYS = new Set(['otp', 'TOTP Seed']);
+
+/**
+ * Parse a KeePass 2.x XML export
+ */
+export function parseKeePassExport(data: string): ImportRow[] {
+  const file = parseXml(data);
+  if (file.name !== 'KeePassFile') {
+    throw new ValidationError(`Invalid KeePass export: root element is <${file.name}>`);
+  }
+  const [root] = childElements(file, 'Root');
+  const [meta] = childElements(file, 'Meta');
+  const recycleBin =
+    meta && childText(meta, 'RecycleBinEnabled')?.trim() !== 'False'
+      ? childText(meta, 'RecycleBinUUID')?.trim()
+      : undefined;
+
+  const rows: ImportRow[] = [];
+  const visit = (group: XmlElement, path: string[]) => {
+    if (recycleBin && childText(group, 'UUID')?.trim() === recycleBin) {
+      return;
+    }
+    for (const entry of childElements(group, 'Entry')) {
+      const row = rows.length + 1;
+      const strings = entryStrings(entry);
+      const title = strings.values.get('Title')?.trim() || undefined;
+      try {
+        rows.push({ row, title, entry: toEntry(entry, strings, path) });
+      } catch (error) {
+        rows.push({ row, title, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    for (const child of childElements(group, 'Group')) {
+      visit(child, [...path, childText(child, 'Name')?.trim() || 'Group']);
+    }
+  };
+  // The top-level group is the database itself, so it is left out of tags
+  for (const group of root ? childElements(root, 'Group') : []) {
+    visit(group, []);
+  }
+  return rows;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface EntryStrings {
+  values: Map<string, string>;
+  /** Keys whose values KeePass protects in memory */
+  protectedKeys: Set<string>;
+}
+
+/**
+ * The entry's String elements by key
+ */
+function entryStrings(entry: XmlElement): EntryStrings {
+  const strings: EntryStrings = { values: new Map(), protectedKeys: new Set() };
+  for (const string of childElements(entry, 'String')) {
+    const key = childText(string, 'Key');
+    const [value] = childElements(string, 'Value');
+    if (key === undefined || value === undefined) {
+      continue;
+    }
+    strings.values.set(key, value.text);
+    if (value.attributes.Protected === 'True' || value.attributes.ProtectInMemory === 'True') {
+      strings.protectedKeys.add(key);
+    }
+  }
+  return strings;
+}
+
+function toEntry(
+  entry: XmlElement,
+  { values, protectedKeys }: EntryStrings,
+  path: string[]
+): ImportEntry {
+  const title = values.get('Title')?.trim();
+  if (!title) {
+    throw new Error('title is empty');
+  }
+
+  let totp: string | undefined;
+  const fields: ImportField[] = [];
+  for (const [key, value] of values) {
+    if (STANDARD_KEYS.has(key) || !value) {
+      continue;
+    }
+    if (TOTP_KEYS.has(key)) {
+      totp = value;
+    } else {
+      fields.push({
+        label: key,
+        value,
+        type: protectedKeys.has(key) ? 'CONCEALED' : 'STRING',
+      });
+    }
+  }
+
+  const username = values.get('UserName') || undefined;
+  const password = values.get('Password') || undefined;
+  const url = values.get('URL')?.trim();
+  const tags = (childText(entry, 'Tags') ?? '')
+    .split(/[;,]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return {
+    title,
+    category: username || password || url ? 'LOGIN' : 'SECURE_NOTE',
+    username,
+    password,
+    notes: values.get('Notes') || undefined,
+    totp,
+    urls: url ? [url] : [],
+    tags: path.length > 0 ? [...tags, path.join('/')] : tags,
+    fields,
+  };
+}
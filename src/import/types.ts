@@ -0,0 +1,68 @@
+/**
+ * Import Types
+ *
+ * The neutral form every importer produces, one row per exported entry.
+ */
+
+import type { FieldType, ItemCategory } from '../types/entities.js';
+
+export type ImportFormat = 'csv' | 'bitwarden' | 'keepass';
+
+/**
+ * A field without a 1Password purpose
+ */
+export interface ImportField {
+  label: string;
+  value: string;
+  type: FieldType;
+}
+
+/**
+ * An exported entry mapped to 1Password concepts
+ */
+export interface ImportEntry {
+  title: string;
+  category: ItemCategory;
+  username?: string;
+  password?: string;
+  notes?: string;
+  /** TOTP secret or otpauth:// URI */
+  totp?: string;
+  urls: string[];
+  /** Tags, including the entry's folder or group path */
+  tags: string[];
+  favorite?: boolean;
+  fields: ImportField[];
+}
+
+/**
+ * One exported entry, or the reason it could not be mapped
+ */
+export interface ImportRow {
+  /** 1-based position of the entry in the export (CSV: data row after the header) */
+  row: number;
+  title?: string;
+  entry?: ImportEntry;
+  error?: string;
+}
+
+/**
+ * Column mapping for CSV imports. Every value names a header column.
+ */
+export interface CsvMapping {
+  title: string;
+  username?: string;
+  password?: string;
+  /** URLs, one per line */
+  url?: string;
+  notes?: string;
+  totp?: string;
+  /** Tags separated by commas or semicolons */
+  tags?: string;
+  /** Folder path, imported as a tag */
+  folder?: string;
+  /** Category name (e.g. LOGIN, "Secure Note"); the default category applies when empty */
+  category?: string;
+  /** Further columns imported as custom fields */
+  fields?: Array<{ column: string; label?: string; concealed?: boolean }>;
+}
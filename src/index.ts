@@ -15,16 +15,27 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
+import { createCacheStore } from './cache/stores.js';
+import { createCachingClient } from './caching-client.js';
 import { createOnePasswordClient } from './client.js';
+import { createConfirmations } from './confirmation.js';
+import { createNameResolvingClient } from './resolving-client.js';
 import { registerActivityTools } from './tools/activity.js';
+import { registerBulkTools } from './tools/bulk.js';
+import { registerExportTools } from './tools/export.js';
+import { registerFieldTools } from './tools/fields.js';
 import { registerFileTools } from './tools/files.js';
+import { registerGeneratorTools } from './tools/generator.js';
 import { registerHealthTools } from './tools/health.js';
+import { registerImportTools } from './tools/import.js';
 import { registerItemTools } from './tools/items.js';
+import { registerSearchTools } from './tools/search.js';
+import { registerSecretTools } from './tools/secrets.js';
 import { registerVaultTools } from './tools/vaults.js';
 import {
   type Env,
-  type TenantCredentials,
   parseTenantCredentials,
+  type TenantCredentials,
   validateCredentials,
 } from './types/env.js';
 
@@ -73,31 +84,46 @@ export class OnePasswordMcpAgent extends McpAgent<Env> {
  * a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param env - Worker environment (cache configuration)
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
+function createStatelessServer(credentials: TenantCredentials, env: Env): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
-  // Create client with tenant-specific credentials
-  const client = createOnePasswordClient(credentials);
+  // Create client with tenant-specific credentials, cache vaults and items per
+  // tenant, and resolve vault and item names to IDs in front of it
+  const connectToken = credentials.connectToken ?? '';
+  const connectClient = createOnePasswordClient(credentials);
+  const store = createCacheStore(env, connectToken);
+  const client = createNameResolvingClient(
+    store ? createCachingClient(connectClient, { store, connectToken }) : connectClient
+  );
+  const confirmations = createConfirmations(connectToken, env);
 
   // Register all tools
-  registerVaultTools(server, client);
-  registerItemTools(server, client);
-  registerFileTools(server, client);
-  registerActivityTools(server, client);
-  registerHealthTools(server, client);
+  registerVaultTools(server, client, env);
+  registerItemTools(server, client, env, confirmations);
+  registerFieldTools(server, client);
+  registerBulkTools(server, client, env);
+  registerImportTools(server, client, env);
+  registerExportTools(server, client, env);
+  registerFileTools(server, client, env);
+  registerActivityTools(server, client, env);
+  registerHealthTools(server, client, env);
+  registerSecretTools(server, client, env);
+  registerSearchTools(server, client, env);
+  registerGeneratorTools(server, env);
 
   // Test connection tool
   server.tool(
     '1password_test_connection',
     'Test the connection to the 1Password Connect server',
     {},
-    async () => {
+    async (_args, extra) => {
       try {
-        const result = await client.testConnection();
+        const result = await client.testConnection({ signal: extra.signal });
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -161,7 +187,7 @@ export default {
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, env);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -200,17 +226,46 @@ export default {
           '1password_get_vault - Get vault details',
           // Items
           '1password_list_items - List items in a vault',
-          '1password_get_item - Get item details',
+          '1password_get_item - Get item details (secrets masked)',
+          '1password_reveal_field - Reveal a single field value',
+          '1password_diff_items - Compare two items or preview an update',
           '1password_create_item - Create a new item',
           '1password_update_item - Update an item (full replace)',
           '1password_patch_item - Patch an item (partial update)',
-          '1password_delete_item - Delete an item',
+          '1password_archive_item - Archive an item',
+          '1password_restore_item - Restore an archived item',
+          '1password_copy_item - Copy an item to another vault',
+          '1password_move_item - Move an item to another vault',
+          '1password_delete_item - Archive (default) or permanently delete an item',
+          // Fields
+          '1password_set_field - Set or add a field by label',
+          '1password_remove_field - Remove a field by label',
+          '1password_rename_field - Rename a field',
+          '1password_add_url - Add a URL to an item',
+          '1password_set_tags - Replace the tags of an item',
+          '1password_add_tags - Add tags to an item',
+          // Bulk
+          '1password_bulk_create_items - Create many items',
+          '1password_bulk_patch_items - Apply the same patch to many items',
+          '1password_bulk_archive_items - Archive many items',
+          // Import / Export
+          '1password_import - Import items from CSV, Bitwarden or KeePass exports',
+          '1password_export - Export items to CSV, JSON Lines or dotenv',
           // Files
           '1password_list_files - List files attached to an item',
           '1password_get_file - Get file details',
           '1password_get_file_content - Download file content',
           // Activity
           '1password_list_activity - Get API activity log',
+          '1password_activity_report - Summarize activity and flag anomalies',
+          // Search
+          '1password_search - Search items across vaults',
+          // Secrets
+          '1password_resolve_reference - Resolve op:// secret references',
+          '1password_inject_template - Render a template containing op:// references',
+          '1password_get_totp - Get the current one-time password for an item',
+          // Generator
+          '1password_generate_password - Generate a password or passphrase',
           // Health
           '1password_get_health - Get server health status',
           '1password_heartbeat - Ping the server',
@@ -0,0 +1,133 @@
+/**
+ * Secret Reference Resolver
+ *
+ * Resolves op:// secret references against a 1Password Connect client.
+ *
+ * Vault and item names are resolved by the client (see resolving-client.ts). A resolver
+ * keeps its item lookups for its lifetime, so resolving many references that point at
+ * the same item fetches that item only once.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type { Item, ItemField } from './types/entities.js';
+import { ValidationError } from './utils/errors.js';
+import { findField } from './utils/masking.js';
+import { parseSecretReference, type SecretReference } from './utils/references.js';
+import { generateTotp, parseTotpConfig } from './utils/totp.js';
+
+// =============================================================================
+// Secret Resolver Interface
+// =============================================================================
+
+export interface ResolvedReference {
+  /** The reference as given */
+  reference: string;
+  /** Resolved value (when successful) */
+  value?: string;
+  /** Error message (when resolution failed) */
+  error?: string;
+}
+
+export interface SecretResolver {
+  /** Resolve a single reference, throwing on failure */
+  resolve(reference: string): Promise<string>;
+  /** Resolve many references, reporting failures per reference */
+  resolveMany(references: string[]): Promise<ResolvedReference[]>;
+}
+
+// =============================================================================
+// Secret Resolver Implementation
+// =============================================================================
+
+class SecretResolverImpl implements SecretResolver {
+  private client: OnePasswordClient;
+  private options?: RequestOptions;
+  private items = new Map<string, Promise<Item>>();
+
+  constructor(client: OnePasswordClient, options?: RequestOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  async resolve(reference: string): Promise<string> {
+    const parsed = parseSecretReference(reference);
+    const item = await this.lookupItem(parsed.vault, parsed.item);
+    const field = findField(item, parsed.field, parsed.section);
+    return readAttribute(field, parsed);
+  }
+
+  async resolveMany(references: string[]): Promise<ResolvedReference[]> {
+    return Promise.all(
+      references.map(async (reference) => {
+        try {
+          return { reference, value: await this.resolve(reference) };
+        } catch (error) {
+          return { reference, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+
+  // ===========================================================================
+  // Lookups (memoized per resolver)
+  // ===========================================================================
+
+  private lookupItem(vault: string, item: string): Promise<Item> {
+    const key = `${vault}/${item}`;
+    let pending = this.items.get(key);
+    if (!pending) {
+      pending = this.client.getItem(vault, item, this.options);
+      this.items.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read the requested attribute from a resolved field
+ */
+async function readAttribute(field: ItemField, reference: SecretReference): Promise<string> {
+  switch (reference.attribute) {
+    case 'value':
+      return field.value ?? '';
+    case 'type':
+      return field.type ?? 'STRING';
+    case 'id':
+      return field.id;
+    case 'label':
+      return field.label ?? '';
+    case 'purpose':
+      return field.purpose ?? '';
+    case 'otp':
+      if (field.type !== 'OTP' || (!field.value && !field.totp)) {
+        throw new ValidationError(
+          `Field '${reference.field}' in '${reference.raw}' is not an OTP field`
+        );
+      }
+      // Prefer computing the code locally; fall back to the code Connect returned
+      return field.value
+        ? (await generateTotp(parseTotpConfig(field.value))).code
+        : (field.totp ?? '');
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a secret reference resolver backed by a 1Password Connect client.
+ *
+ * @param client - Name-resolving 1Password Connect client instance
+ * @param options - Request options (such as an abort signal) applied to every lookup
+ */
+export function createSecretResolver(
+  client: OnePasswordClient,
+  options?: RequestOptions
+): SecretResolver {
+  return new SecretResolverImpl(client, options);
+}
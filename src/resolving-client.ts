@@ -0,0 +1,256 @@
+/**
+ * Name-Resolving 1Password Connect Client
+ *
+ * Wraps a OnePasswordClient so every vaultId/itemId parameter also accepts an
+ * exact vault name or item title. Names are resolved with the Connect
+ * `name eq` / `title eq` filters; values that look like UUIDs pass through as-is.
+ *
+ * Vault name lookups are cached for the lifetime of the wrapper, which is created
+ * per MCP request.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type {
+  APIRequest,
+  Item,
+  ItemCreateInput,
+  ItemFile,
+  ItemUpdateInput,
+  JsonPatchOperation,
+  PaginatedResponse,
+  PaginationParams,
+  ServerHealth,
+  Vault,
+} from './types/entities.js';
+import { AmbiguousNameError, NotFoundError } from './utils/errors.js';
+import { escapeFilterValue } from './utils/filters.js';
+import { isOnePasswordId } from './utils/references.js';
+
+// =============================================================================
+// Name-Resolving Client Implementation
+// =============================================================================
+
+class NameResolvingClient implements OnePasswordClient {
+  private client: OnePasswordClient;
+  private vaultIds = new Map<string, Promise<string>>();
+
+  constructor(client: OnePasswordClient) {
+    this.client = client;
+  }
+
+  // ===========================================================================
+  // Name Resolution
+  // ===========================================================================
+
+  private resolveVaultId(nameOrId: string, options?: RequestOptions): Promise<string> {
+    if (isOnePasswordId(nameOrId)) {
+      return Promise.resolve(nameOrId);
+    }
+    let pending = this.vaultIds.get(nameOrId);
+    if (!pending) {
+      pending = this.findVaultId(nameOrId, options);
+      // Failed lookups are not cached, so a retry can succeed
+      pending.catch(() => this.vaultIds.delete(nameOrId));
+      this.vaultIds.set(nameOrId, pending);
+    }
+    return pending;
+  }
+
+  private async findVaultId(name: string, options?: RequestOptions): Promise<string> {
+    const vaults = await this.client.listVaults(`name eq "${escapeFilterValue(name)}"`, options);
+    const matches = vaults.filter((v) => v.name === name);
+    if (matches.length === 0) {
+      throw new NotFoundError('Vault', name);
+    }
+    if (matches.length > 1) {
+      throw new AmbiguousNameError(
+        'Vault',
+        name,
+        sortCandidates(matches.map((v) => ({ id: v.id, name: v.name })))
+      );
+    }
+    return matches[0].id;
+  }
+
+  private async resolveItemId(
+    vaultId: string,
+    titleOrId: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    if (isOnePasswordId(titleOrId)) {
+      return titleOrId;
+    }
+    const items = await this.client.listItems(
+      vaultId,
+      `title eq "${escapeFilterValue(titleOrId)}"`,
+      options
+    );
+    const matches = items.filter((i) => i.title === titleOrId);
+    if (matches.length === 0) {
+      throw new NotFoundError('Item', titleOrId);
+    }
+    if (matches.length > 1) {
+      throw new AmbiguousNameError(
+        'Item',
+        titleOrId,
+        sortCandidates(matches.map((i) => ({ id: i.id, name: i.title })))
+      );
+    }
+    return matches[0].id;
+  }
+
+  private async resolveIds(
+    vault: string,
+    item: string,
+    options?: RequestOptions
+  ): Promise<[string, string]> {
+    const vaultId = await this.resolveVaultId(vault, options);
+    return [vaultId, await this.resolveItemId(vaultId, item, options)];
+  }
+
+  // ===========================================================================
+  // Connection & Health
+  // ===========================================================================
+
+  testConnection(options?: RequestOptions): Promise<{ connected: boolean; message: string }> {
+    return this.client.testConnection(options);
+  }
+
+  getHealth(options?: RequestOptions): Promise<ServerHealth> {
+    return this.client.getHealth(options);
+  }
+
+  heartbeat(options?: RequestOptions): Promise<string> {
+    return this.client.heartbeat(options);
+  }
+
+  // ===========================================================================
+  // Vaults
+  // ===========================================================================
+
+  listVaults(filter?: string, options?: RequestOptions): Promise<Vault[]> {
+    return this.client.listVaults(filter, options);
+  }
+
+  async getVault(vaultId: string, options?: RequestOptions): Promise<Vault> {
+    return this.client.getVault(await this.resolveVaultId(vaultId, options), options);
+  }
+
+  // ===========================================================================
+  // Items
+  // ===========================================================================
+
+  async listItems(vaultId: string, filter?: string, options?: RequestOptions): Promise<Item[]> {
+    return this.client.listItems(await this.resolveVaultId(vaultId, options), filter, options);
+  }
+
+  async getItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<Item> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.getItem(resolvedVaultId, resolvedItemId, options);
+  }
+
+  async createItem(
+    vaultId: string,
+    item: ItemCreateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
+    return this.client.createItem(await this.resolveVaultId(vaultId, options), item, options);
+  }
+
+  async updateItem(
+    vaultId: string,
+    itemId: string,
+    item: ItemUpdateInput,
+    options?: RequestOptions
+  ): Promise<Item> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.updateItem(resolvedVaultId, resolvedItemId, item, options);
+  }
+
+  async patchItem(
+    vaultId: string,
+    itemId: string,
+    operations: JsonPatchOperation[],
+    options?: RequestOptions
+  ): Promise<Item> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.patchItem(resolvedVaultId, resolvedItemId, operations, options);
+  }
+
+  async deleteItem(vaultId: string, itemId: string, options?: RequestOptions): Promise<void> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.deleteItem(resolvedVaultId, resolvedItemId, options);
+  }
+
+  // ===========================================================================
+  // Files
+  // ===========================================================================
+
+  async listFiles(
+    vaultId: string,
+    itemId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile[]> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.listFiles(resolvedVaultId, resolvedItemId, inlineContent, options);
+  }
+
+  async getFile(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    inlineContent?: boolean,
+    options?: RequestOptions
+  ): Promise<ItemFile> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.getFile(resolvedVaultId, resolvedItemId, fileId, inlineContent, options);
+  }
+
+  async getFileContent(
+    vaultId: string,
+    itemId: string,
+    fileId: string,
+    options?: RequestOptions
+  ): Promise<ArrayBuffer> {
+    const [resolvedVaultId, resolvedItemId] = await this.resolveIds(vaultId, itemId, options);
+    return this.client.getFileContent(resolvedVaultId, resolvedItemId, fileId, options);
+  }
+
+  // ===========================================================================
+  // Activity
+  // ===========================================================================
+
+  listActivity(
+    params?: PaginationParams,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<APIRequest>> {
+    return this.client.listActivity(params, options);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Sort ambiguity candidates by ID so errors are deterministic
+ */
+function sortCandidates(
+  candidates: Array<{ id: string; name: string }>
+): Array<{ id: string; name: string }> {
+  return candidates.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Wrap a 1Password Connect client so vault and item parameters accept names.
+ *
+ * @param client - 1Password Connect client instance
+ */
+export function createNameResolvingClient(client: OnePasswordClient): OnePasswordClient {
+  return new NameResolvingClient(client);
+}
@@ -6,16 +6,31 @@
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { OnePasswordClient } from '../client.js';
+import { buildActivityReport, queryActivity } from '../activity.js';
+import { DEFAULT_ACTIVITY_LIMIT, type OnePasswordClient, type RequestOptions } from '../client.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { isOnePasswordId } from '../utils/references.js';
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_REPORT_HOURS = 24;
+const DEFAULT_REPORT_MAX_PAGES = 20;
 
 /**
  * Register all activity-related tools
  *
  * @param server - MCP server instance
  * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
  */
-export function registerActivityTools(server: McpServer, client: OnePasswordClient): void {
+export function registerActivityTools(
+  server: McpServer,
+  client: OnePasswordClient,
+  env: Env
+): void {
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // List Activity
   // ===========================================================================
@@ -23,27 +38,159 @@ export function registerActivityTools(server: McpServer, client: OnePasswordClie
     '1password_list_activity',
     `Retrieve the API activity log from the Connect server.
 
-Shows audit trail of API requests made to the server.
+Shows audit trail of API requests made to the server, optionally filtered. Filtering happens
+while scanning the log page by page; a single call scans at most maxPages pages. Pass
+nextOffset back as offset to continue where the previous call stopped.
 
 Args:
-  - limit: Maximum number of activity entries to return
-  - offset: Offset for pagination
+  - limit: Maximum number of matching entries to return (default 50)
+  - offset: Log offset to start scanning from (nextOffset of a previous call)
+  - action: Only READ, CREATE, UPDATE or DELETE requests
+  - result: Only SUCCESS or DENY requests
+  - actorId: Only requests made by this actor
+  - requestIp: Only requests made from this IP address
+  - vaultId: Only requests touching this vault (UUID or exact name)
+  - itemId: Only requests touching this item (UUID, or exact title together with vaultId)
+  - since / until: ISO 8601 time window
+  - maxPages: Maximum log pages to scan in this call (default 10)
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Array of APIRequest objects with requestId, timestamp, action, result, actor, and resource details.`,
+  { items: APIRequest[], count, hasMore, nextOffset, scannedPages, scannedEntries, pageCapReached }`,
     {
       limit: z.number().int().min(1).max(100).optional().describe('Maximum entries to return'),
       offset: z.number().int().min(0).optional().describe('Pagination offset'),
+      action: z.enum(['READ', 'CREATE', 'UPDATE', 'DELETE']).optional().describe('Action'),
+      result: z.enum(['SUCCESS', 'DENY']).optional().describe('Result'),
+      actorId: z.string().optional().describe('Actor ID'),
+      requestIp: z.string().optional().describe('Request IP address'),
+      vaultId: z.string().optional().describe('Vault UUID or name'),
+      itemId: z.string().optional().describe('Item UUID or title'),
+      since: z.string().optional().describe('Start of the time window (ISO 8601)'),
+      until: z.string().optional().describe('End of the time window (ISO 8601)'),
+      maxPages: z.number().int().min(1).max(50).optional().describe('Maximum pages to scan'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ limit, offset, format }) => {
+    async ({ limit, offset, vaultId, itemId, maxPages, format, ...filter }, extra) => {
       try {
-        const activity = await client.listActivity({ limit, offset });
-        return formatResponse(activity, format, 'activity');
+        const options = { signal: extra.signal };
+        const resource = await resolveResource(client, vaultId, itemId, options);
+        const activity = await queryActivity(
+          client,
+          {
+            ...filter,
+            ...resource,
+            limit: limit ?? DEFAULT_ACTIVITY_LIMIT,
+            offset,
+            maxPages: maxPages ?? DEFAULT_MAX_PAGES,
+          },
+          options
+        );
+        return formatResponse(activity, format, 'activity', characterLimit);
       } catch (error) {
         return formatError(error);
       }
     }
   );
+
+  // ===========================================================================
+  // Activity Report
+  // ===========================================================================
+  server.tool(
+    '1password_activity_report',
+    `Summarize API activity over a time window and flag anomalies.
+
+Aggregates requests per actor and per IP, DENY counts, the most-read items, user agents and
+IPs seen for the first time (flagging those new to an actor within the window), and bursts
+where an actor's reads in a time bucket spike above its baseline.
+
+Args:
+  - since: Start of the window (ISO 8601, default 24 hours ago)
+  - until: End of the window (ISO 8601, default now)
+  - top: Number of entries in each ranked list (default 10)
+  - bucketMinutes: Bucket width for burst detection (default 5)
+  - burstFactor: Reads above this multiple of the baseline count as a burst (default 3)
+  - minBurstReads: Minimum reads in a bucket to count as a burst (default 10)
+  - maxPages: Maximum log pages to scan (default 20)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Report with window, totals, actors, ips, mostReadItems, firstSeenUserAgents, firstSeenIps,
+  bursts, and whether the scan covered the whole window.`,
+    {
+      since: z.string().optional().describe('Start of the window (ISO 8601)'),
+      until: z.string().optional().describe('End of the window (ISO 8601)'),
+      top: z.number().int().min(1).max(100).default(10).describe('Entries per ranked list'),
+      bucketMinutes: z.number().int().min(1).max(1440).default(5).describe('Burst bucket width'),
+      burstFactor: z.number().min(1).default(3).describe('Burst threshold over baseline'),
+      minBurstReads: z.number().int().min(1).default(10).describe('Minimum reads for a burst'),
+      maxPages: z.number().int().min(1).max(100).optional().describe('Maximum pages to scan'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async (
+      { since, until, top, bucketMinutes, burstFactor, minBurstReads, maxPages, format },
+      extra
+    ) => {
+      try {
+        const window = {
+          since: since ?? new Date(Date.now() - DEFAULT_REPORT_HOURS * 3_600_000).toISOString(),
+          until: until ?? new Date().toISOString(),
+        };
+        const activity = await queryActivity(
+          client,
+          {
+            ...window,
+            limit: Number.POSITIVE_INFINITY,
+            maxPages: maxPages ?? DEFAULT_REPORT_MAX_PAGES,
+          },
+          { signal: extra.signal }
+        );
+        const report = buildActivityReport(activity.items, window, {
+          top,
+          bucketMinutes,
+          burstFactor,
+          minBurstReads,
+        });
+        return formatResponse(
+          {
+            ...report,
+            scan: {
+              complete: !activity.hasMore,
+              scannedPages: activity.scannedPages,
+              scannedEntries: activity.scannedEntries,
+              nextOffset: activity.nextOffset,
+            },
+          },
+          format,
+          'activity-report',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * Resolve vault and item names in an activity filter to IDs.
+ *
+ * IDs are used as given, so activity for deleted vaults and items can still be queried.
+ */
+async function resolveResource(
+  client: OnePasswordClient,
+  vaultId: string | undefined,
+  itemId: string | undefined,
+  options: RequestOptions
+): Promise<{ vaultId?: string; itemId?: string }> {
+  const vault =
+    vaultId && !isOnePasswordId(vaultId) ? (await client.getVault(vaultId, options)).id : vaultId;
+
+  if (!itemId || isOnePasswordId(itemId)) {
+    return { vaultId: vault, itemId };
+  }
+  if (!vault) {
+    throw new ValidationError('Filtering by item title requires vaultId');
+  }
+  return { vaultId: vault, itemId: (await client.getItem(vault, itemId, options)).id };
 }
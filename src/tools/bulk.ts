@@ -0,0 +1,299 @@
+/**
+ * Bulk Tools
+ *
+ * MCP tools for creating, patching and archiving many items in one call.
+ * Items are processed with bounded concurrency and each one reports its own
+ * outcome; a failure does not abort the batch unless stopOnError is set.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient, RequestOptions } from '../client.js';
+import { previewArchive, previewCreate, previewPatch } from '../dry-run.js';
+import type {
+  Item,
+  ItemCategory,
+  ItemCreateInput,
+  ItemField,
+  ItemSection,
+  ItemUrl,
+  JsonPatchOperation,
+} from '../types/entities.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { type BatchOutcome, DEFAULT_CONCURRENCY, mapBatch } from '../utils/concurrency.js';
+import { OnePasswordApiError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { setStateOperations } from '../utils/item-edits.js';
+import { patchItemAtVersion } from '../versioning.js';
+import {
+  batchOptionsShape,
+  itemCategorySchema,
+  itemFieldSchema,
+  itemSectionSchema,
+  itemUrlSchema,
+  jsonPatchOpSchema,
+} from './schemas.js';
+
+/** Largest batch accepted by one call */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Outcome of one item in a batch
+ */
+interface BulkItemResult {
+  index: number;
+  /** The item as requested (ID or title) */
+  target: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  item?: Pick<Item, 'id' | 'title' | 'version' | 'state'>;
+  /** What the change would do (dry runs) */
+  summary?: string;
+  error?: { code: string; message: string };
+}
+
+/**
+ * Register all bulk tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
+ */
+export function registerBulkTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Bulk Create
+  // ===========================================================================
+  server.tool(
+    '1password_bulk_create_items',
+    `Create many items in a vault in one call.
+
+Each item reports success or failure individually. Requests run with bounded concurrency and
+pause for the server's Retry-After when rate limited.
+
+Args:
+  - vaultId: The vault UUID or name to create the items in
+  - items: Up to 100 items, each { title, category, fields?, sections?, urls?, tags?, favorite? }
+    (the same shape as create_item)
+  - concurrency: Maximum requests in flight (default 4)
+  - stopOnError: Skip the remaining items after the first failure (default false)
+  - dryRun: Validate every item and return the previews without creating anything
+
+Returns:
+  { dryRun, total, succeeded, failed, skipped, results: [{ index, target, status, item?, summary?, error? }] }`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      items: z
+        .array(
+          z.object({
+            title: z.string().describe('Title of the item'),
+            category: itemCategorySchema.describe('Item category'),
+            fields: z.array(itemFieldSchema).optional().describe('Item fields'),
+            sections: z.array(itemSectionSchema).optional().describe('Item sections'),
+            urls: z.array(itemUrlSchema).optional().describe('Item URLs'),
+            tags: z.array(z.string()).optional().describe('Item tags'),
+            favorite: z.boolean().optional().describe('Whether to mark as favorite'),
+          })
+        )
+        .min(1)
+        .max(MAX_BATCH_SIZE)
+        .describe('Items to create'),
+      ...batchOptionsShape,
+    },
+    async ({ vaultId, items, concurrency, stopOnError, dryRun }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        // Resolve the vault once rather than per item
+        const vault = await client.getVault(vaultId, options);
+        const inputs: ItemCreateInput[] = items.map((item) => ({
+          ...item,
+          category: item.category as ItemCategory,
+          vault: { id: vault.id },
+          fields: item.fields as ItemField[] | undefined,
+          sections: item.sections as ItemSection[] | undefined,
+          urls: item.urls as ItemUrl[] | undefined,
+        }));
+
+        const outcomes = await mapBatch(
+          inputs,
+          { concurrency: concurrency ?? DEFAULT_CONCURRENCY, stopOnError, signal: extra.signal },
+          async (input) => {
+            if (dryRun) {
+              const preview = await previewCreate(client, vault.id, input, options);
+              return { item: preview.item, summary: preview.diff?.summary };
+            }
+            return { item: await client.createItem(vault.id, input, options) };
+          }
+        );
+
+        return formatResponse(
+          summarize(
+            outcomes,
+            items.map((item) => item.title),
+            dryRun
+          ),
+          'json',
+          'bulk',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Bulk Patch
+  // ===========================================================================
+  server.tool(
+    '1password_bulk_patch_items',
+    `Apply the same JSON Patch operations to many items, e.g. adding a tag.
+
+Paths are resolved against each item separately. Each item reports success or failure
+individually. Requests run with bounded concurrency and pause for the server's Retry-After
+when rate limited.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemIds: Up to 100 item UUIDs or exact titles
+  - operations: JSON Patch operations applied to every item (as in patch_item)
+  - concurrency: Maximum requests in flight (default 4)
+  - stopOnError: Skip the remaining items after the first failure (default false)
+  - dryRun: Apply the operations locally and report each item's diff without patching
+
+Returns:
+  { dryRun, total, succeeded, failed, skipped, results: [{ index, target, status, item?, summary?, error? }] }`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemIds: z.array(z.string()).min(1).max(MAX_BATCH_SIZE).describe('Item UUIDs or titles'),
+      operations: z.array(jsonPatchOpSchema).min(1).describe('JSON Patch operations'),
+      ...batchOptionsShape,
+    },
+    async ({ vaultId, itemIds, operations, concurrency, stopOnError, dryRun }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        const ops = operations as JsonPatchOperation[];
+        const vault = await client.getVault(vaultId, options);
+
+        const outcomes = await mapBatch(
+          itemIds,
+          { concurrency: concurrency ?? DEFAULT_CONCURRENCY, stopOnError, signal: extra.signal },
+          async (itemId) => {
+            if (dryRun) {
+              const preview = await previewPatch(client, vault.id, itemId, ops, undefined, options);
+              return { item: preview.item, summary: preview.diff?.summary };
+            }
+            return { item: await client.patchItem(vault.id, itemId, ops, options) };
+          }
+        );
+
+        return formatResponse(summarize(outcomes, itemIds, dryRun), 'json', 'bulk', characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Bulk Archive
+  // ===========================================================================
+  server.tool(
+    '1password_bulk_archive_items',
+    `Archive many items in one call. Archived items can be restored with restore_item.
+
+Each item reports success or failure individually. Requests run with bounded concurrency and
+pause for the server's Retry-After when rate limited.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemIds: Up to 100 item UUIDs or exact titles
+  - concurrency: Maximum requests in flight (default 4)
+  - stopOnError: Skip the remaining items after the first failure (default false)
+  - dryRun: Report the items that would be archived without archiving
+
+Returns:
+  { dryRun, total, succeeded, failed, skipped, results: [{ index, target, status, item?, error? }] }`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemIds: z.array(z.string()).min(1).max(MAX_BATCH_SIZE).describe('Item UUIDs or titles'),
+      ...batchOptionsShape,
+    },
+    async ({ vaultId, itemIds, concurrency, stopOnError, dryRun }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        const vault = await client.getVault(vaultId, options);
+
+        const outcomes = await mapBatch(
+          itemIds,
+          { concurrency: concurrency ?? DEFAULT_CONCURRENCY, stopOnError, signal: extra.signal },
+          async (itemId) => {
+            if (dryRun) {
+              return {
+                item: (await previewArchive(client, vault.id, itemId, undefined, options)).item,
+              };
+            }
+            return { item: await archive(client, vault.id, itemId, options) };
+          }
+        );
+
+        return formatResponse(summarize(outcomes, itemIds, dryRun), 'json', 'bulk', characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function archive(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  options: RequestOptions
+): Promise<Item> {
+  const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+  const operations = setStateOperations(current, 'ARCHIVED');
+  if (operations.length === 0) {
+    return current;
+  }
+  return patchItemAtVersion(client, vaultId, current.id, operations, undefined, options);
+}
+
+/**
+ * Collect per-item outcomes into the batch response
+ */
+function summarize(
+  outcomes: BatchOutcome<{ item: Item; summary?: string }>[],
+  targets: string[],
+  dryRun: boolean
+) {
+  const results: BulkItemResult[] = outcomes.map((outcome, index) => {
+    const result: BulkItemResult = { index, target: targets[index], status: outcome.status };
+    if (outcome.status === 'succeeded') {
+      const { id, title, version, state } = outcome.value.item;
+      result.item = { id, title, version, state };
+      result.summary = outcome.value.summary;
+    } else if (outcome.status === 'failed') {
+      const reason = outcome.reason;
+      result.error = {
+        code: reason instanceof OnePasswordApiError ? reason.code : 'ERROR',
+        message: reason instanceof Error ? reason.message : String(reason),
+      };
+    }
+    return result;
+  });
+
+  const count = (status: BulkItemResult['status']) =>
+    results.filter((r) => r.status === status).length;
+  return {
+    dryRun,
+    total: results.length,
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    results,
+  };
+}
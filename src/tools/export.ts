@@ -0,0 +1,151 @@
+/**
+ * Export Tools
+ *
+ * MCP tool for exporting vault items to portable formats.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient } from '../client.js';
+import { renderExport } from '../export.js';
+import type { Item } from '../types/entities.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { DEFAULT_CONCURRENCY, mapSettled } from '../utils/concurrency.js';
+import { compileItemFilter } from '../utils/filters.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { paginate, resolvePageSize } from '../utils/pagination.js';
+import { itemFilterSchema } from './schemas.js';
+
+/**
+ * Register all export tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ * @param env - Worker environment (page size and response size limits)
+ */
+export function registerExportTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Export
+  // ===========================================================================
+  server.tool(
+    '1password_export',
+    `Export the items of a vault, or a filtered set of them, one page at a time.
+
+Formats:
+  - csv: One row per item (id, title, category, vault, urls, username, password, otp, notes,
+    tags, favorite, fields, updatedAt); the header row is only on the first page. Cells starting
+    with =, +, -, @, tab or CR are prefixed with ' so spreadsheets do not evaluate them
+  - json: JSON Lines, one Item object per line (the same shape as get_item); no schema header
+  - dotenv: One variable per field, named ITEM_TITLE_FIELD_LABEL, or per envMapping. A name
+    repeated within a page gets a numeric suffix (_2, _3) and is reported in errors
+
+Sensitive values (passwords, concealed fields, one-time passwords, card numbers, SSH keys) are
+written as op:// references unless includeSecrets is true, so the export is safe to commit and
+can be resolved with \`op inject\` or \`op run\`.
+
+Each call fetches and renders one page of items. Append each page's content to the output and
+call again with nextCursor until hasMore is false; the pages concatenate into a valid file.
+If a page exceeds the response size limit, request a smaller limit.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - filter: Optional structured filter (as in list_items) or raw filter string
+  - state: ACTIVE (default), ARCHIVED or ALL
+  - format: 'csv', 'json' or 'dotenv'
+  - includeSecrets: Write secret values instead of op:// references (default false)
+  - envMapping: dotenv only. Field label (or "Item title/field label") to variable name;
+    only mapped fields are exported
+  - limit: Items per page (defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE)
+  - cursor: Cursor from a previous page's nextCursor
+
+Returns:
+  { format, content, count, total, hasMore, nextCursor, page, totalPages, errors? }`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      filter: z
+        .union([itemFilterSchema, z.string()])
+        .optional()
+        .describe('Structured filter or raw filter string'),
+      state: z
+        .enum(['ACTIVE', 'ARCHIVED', 'ALL'])
+        .default('ACTIVE')
+        .describe('Item state to export'),
+      format: z.enum(['csv', 'json', 'dotenv']).describe('Output format'),
+      includeSecrets: z
+        .boolean()
+        .default(false)
+        .describe('Write secret values instead of op:// references'),
+      envMapping: z
+        .record(z.string(), z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/))
+        .optional()
+        .describe('dotenv only: field label to variable name'),
+      limit: z.number().int().min(1).optional().describe('Items per page'),
+      cursor: z.string().optional().describe('Cursor from a previous page'),
+    },
+    async (
+      { vaultId, filter, state, format, includeSecrets, envMapping, limit, cursor },
+      extra
+    ) => {
+      try {
+        const options = { signal: extra.signal };
+        const compiled = compileItemFilter(filter);
+        const vault = await client.getVault(vaultId, options);
+        const summaries = (
+          await client.listItems(vault.id, compiled.connectFilter, options)
+        ).filter(
+          (item) =>
+            (state === 'ALL' || (item.state ?? 'ACTIVE') === state) && compiled.matches(item)
+        );
+        const page = paginate(summaries, resolvePageSize(env, limit), cursor, {
+          scope: `export:${vault.id}:${state}:${format}:${JSON.stringify(filter ?? '')}`,
+          version: vault.contentVersion ?? '',
+        });
+
+        // Only this page's items are fetched in full
+        const results = await mapSettled(page.items, DEFAULT_CONCURRENCY, (summary) =>
+          client.getItem(vault.id, summary.id, options)
+        );
+        const items: Item[] = [];
+        const errors: Array<{ id: string; title: string; message: string }> = [];
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            items.push(result.value);
+          } else {
+            const { id, title } = page.items[index];
+            const reason = result.reason;
+            errors.push({
+              id,
+              title,
+              message: reason instanceof Error ? reason.message : String(reason),
+            });
+          }
+        });
+
+        const { content, issues } = renderExport(format, items, {
+          includeSecrets,
+          first: !cursor,
+          envMapping,
+        });
+        errors.push(...issues);
+
+        const { items: _summaries, ...pageInfo } = page;
+        return formatResponse(
+          {
+            format,
+            includeSecrets,
+            content,
+            ...pageInfo,
+            ...(errors.length > 0 && { errors }),
+          },
+          'json',
+          'export',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
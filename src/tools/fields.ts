@@ -0,0 +1,340 @@
+/**
+ * Field Tools
+ *
+ * MCP tools for editing item fields, URLs and tags by label instead of raw
+ * JSON Patch pointers.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient } from '../client.js';
+import type { FieldType, Item, JsonPatchOperation } from '../types/entities.js';
+import { formatError, type ToolResponse } from '../utils/formatters.js';
+import {
+  addTagsOperations,
+  addUrlOperations,
+  removeFieldOperations,
+  renameFieldOperations,
+  setFieldOperations,
+  setTagsOperations,
+} from '../utils/item-edits.js';
+import { maskItem } from '../utils/masking.js';
+import { patchItemAtVersion } from '../versioning.js';
+import { itemFieldSchema, passwordRecipeSchema } from './schemas.js';
+
+const expectedVersionSchema = z
+  .number()
+  .int()
+  .optional()
+  .describe('Item version the edit is based on');
+
+/**
+ * Register all field editing tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ */
+export function registerFieldTools(server: McpServer, client: OnePasswordClient): void {
+  /**
+   * Read the current item, build guarded operations against it and apply them
+   */
+  const edit = async (
+    vaultId: string,
+    itemId: string,
+    expectedVersion: number | undefined,
+    signal: AbortSignal,
+    build: (item: Item) => JsonPatchOperation[],
+    message: string
+  ): Promise<ToolResponse> => {
+    const options = { signal };
+    const item = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+    const operations = build(item);
+    const updated =
+      operations.length === 0
+        ? item
+        : await patchItemAtVersion(
+            client,
+            item.vault.id,
+            item.id,
+            operations,
+            expectedVersion,
+            options
+          );
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              message: operations.length === 0 ? 'Nothing to change' : message,
+              item: maskItem(updated),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  };
+
+  // ===========================================================================
+  // Set Field
+  // ===========================================================================
+  server.tool(
+    '1password_set_field',
+    `Set the value of a field, matched by ID or label, adding the field if none matches.
+
+Labels are matched case-insensitively; if a label matches more than one field the call
+fails with the candidate field IDs. A section that does not exist yet is created.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - field: Field ID or label
+  - value: New value (or set generate instead)
+  - generate: Have 1Password generate a new value (optionally with recipe)
+  - recipe: Password recipe used with generate
+  - type: Field type (defaults to STRING for new fields)
+  - section: Optional section ID or label
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      field: z.string().describe('Field ID or label'),
+      value: z.string().optional().describe('New value'),
+      generate: z.boolean().optional().describe('Generate a new value'),
+      recipe: passwordRecipeSchema.optional().describe('Recipe used when generate is true'),
+      type: itemFieldSchema.shape.type.describe('Field type'),
+      section: z.string().optional().describe('Section ID or label'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async (
+      { vaultId, itemId, field, value, generate, recipe, type, section, expectedVersion },
+      extra
+    ) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) =>
+            setFieldOperations(item, {
+              field,
+              value,
+              generate,
+              recipe,
+              type: type as FieldType | undefined,
+              section,
+            }),
+          `Field '${field}' set`
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Remove Field
+  // ===========================================================================
+  server.tool(
+    '1password_remove_field',
+    `Remove a field, matched by ID or label.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - field: Field ID or label (labels must be unique)
+  - section: Optional section ID or label to narrow the lookup
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      field: z.string().describe('Field ID or label'),
+      section: z.string().optional().describe('Section ID or label'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async ({ vaultId, itemId, field, section, expectedVersion }, extra) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) => removeFieldOperations(item, field, section),
+          `Field '${field}' removed`
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Rename Field
+  // ===========================================================================
+  server.tool(
+    '1password_rename_field',
+    `Change the label of a field, matched by ID or label.
+
+Fails if another field in the same section already has the new label.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - field: Field ID or current label (labels must be unique)
+  - label: New label
+  - section: Optional section ID or label to narrow the lookup
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      field: z.string().describe('Field ID or current label'),
+      label: z.string().min(1).describe('New label'),
+      section: z.string().optional().describe('Section ID or label'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async ({ vaultId, itemId, field, label, section, expectedVersion }, extra) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) => renameFieldOperations(item, field, label, section),
+          `Field '${field}' renamed to '${label}'`
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Add URL
+  // ===========================================================================
+  server.tool(
+    '1password_add_url',
+    `Add a URL to an item.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - href: The URL
+  - label: Optional URL label
+  - primary: Make this the primary URL (default false)
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      href: z.string().describe('The URL'),
+      label: z.string().optional().describe('URL label'),
+      primary: z.boolean().default(false).describe('Make this the primary URL'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async ({ vaultId, itemId, href, label, primary, expectedVersion }, extra) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) => addUrlOperations(item, { href, label, primary }),
+          `URL '${href}' added`
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Set Tags
+  // ===========================================================================
+  server.tool(
+    '1password_set_tags',
+    `Replace all tags on an item.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - tags: The complete list of tags (an empty list removes all tags)
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      tags: z.array(z.string()).describe('Complete list of tags'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async ({ vaultId, itemId, tags, expectedVersion }, extra) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) => setTagsOperations(item, tags),
+          'Tags set'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Add Tags
+  // ===========================================================================
+  server.tool(
+    '1password_add_tags',
+    `Add tags to an item, keeping its existing tags.
+
+Tags already on the item (compared case-insensitively) are skipped.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - tags: Tags to add
+  - expectedVersion: Only edit if the item is still at this version
+
+Returns:
+  The updated Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      tags: z.array(z.string()).min(1).describe('Tags to add'),
+      expectedVersion: expectedVersionSchema,
+    },
+    async ({ vaultId, itemId, tags, expectedVersion }, extra) => {
+      try {
+        return await edit(
+          vaultId,
+          itemId,
+          expectedVersion,
+          extra.signal,
+          (item) => addTagsOperations(item, tags),
+          'Tags added'
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -7,15 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { OnePasswordClient } from '../client.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { ResponseTooLargeError, ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
+// Room left in a file content response for everything but the Base64 payload
+const FILE_CONTENT_OVERHEAD = 500;
+
 /**
  * Register all file-related tools
  *
  * @param server - MCP server instance
  * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
  */
-export function registerFileTools(server: McpServer, client: OnePasswordClient): void {
+export function registerFileTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // List Files
   // ===========================================================================
@@ -24,23 +32,34 @@ export function registerFileTools(server: McpServer, client: OnePasswordClient):
     `List all files attached to an item.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
-  - inlineContent: If true, include Base64-encoded file content in response
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - inlineContent: Not supported; listings never include content. Passing true is an error
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Array of File objects with id, name, size, content_type.`,
+  Array of File objects with id, name, size, content_type.
+  Use get_file or get_file_content to read the content of a single file.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
-      inlineContent: z.boolean().optional().describe('Include Base64-encoded content'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      inlineContent: z
+        .boolean()
+        .optional()
+        .describe('Not supported: read content with 1password_get_file_content'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ vaultId, itemId, inlineContent, format }) => {
+    async ({ vaultId, itemId, inlineContent, format }, extra) => {
       try {
-        const files = await client.listFiles(vaultId, itemId, inlineContent);
-        return formatResponse(files, format, 'files');
+        if (inlineContent) {
+          throw new ValidationError(
+            'list_files does not return file content; read each file with 1password_get_file_content'
+          );
+        }
+        const files = await client.listFiles(vaultId, itemId, false, {
+          signal: extra.signal,
+        });
+        return formatResponse(files, format, 'files', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -55,8 +74,8 @@ Returns:
     `Get details for a specific file attached to an item.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
   - fileId: The file UUID
   - inlineContent: If true, include Base64-encoded file content in response
   - format: Response format ('json' or 'markdown')
@@ -64,16 +83,18 @@ Args:
 Returns:
   File object with id, name, size, content_type, and optionally content.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
       fileId: z.string().describe('File UUID'),
       inlineContent: z.boolean().optional().describe('Include Base64-encoded content'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ vaultId, itemId, fileId, inlineContent, format }) => {
+    async ({ vaultId, itemId, fileId, inlineContent, format }, extra) => {
       try {
-        const file = await client.getFile(vaultId, itemId, fileId, inlineContent);
-        return formatResponse(file, format, 'file');
+        const file = await client.getFile(vaultId, itemId, fileId, inlineContent, {
+          signal: extra.signal,
+        });
+        return formatResponse(file, format, 'file', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -85,25 +106,52 @@ Returns:
   // ===========================================================================
   server.tool(
     '1password_get_file_content',
-    `Download the raw content of a file.
+    `Download the raw content of a file, or a byte range of it.
+
+Content that would exceed the response size limit is refused; read large files in ranges
+using offset and length.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
   - fileId: The file UUID
+  - offset: Byte offset to start reading from (default 0)
+  - length: Number of bytes to read (default: to the end of the file)
 
 Returns:
-  Base64-encoded file content.`,
+  Base64-encoded content with size, offset, length, hasMore and nextOffset.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
       fileId: z.string().describe('File UUID'),
+      offset: z.number().int().min(0).default(0).describe('Byte offset'),
+      length: z.number().int().min(1).optional().describe('Number of bytes to read'),
     },
-    async ({ vaultId, itemId, fileId }) => {
+    async ({ vaultId, itemId, fileId, offset, length }, extra) => {
       try {
-        const content = await client.getFileContent(vaultId, itemId, fileId);
+        const content = await client.getFileContent(vaultId, itemId, fileId, {
+          signal: extra.signal,
+        });
+        const size = content.byteLength;
+        if (offset > size) {
+          throw new ValidationError(
+            `Offset ${offset} is beyond the end of the file (${size} bytes)`
+          );
+        }
+
+        const end = length === undefined ? size : Math.min(size, offset + length);
+        const maxBytes = Math.max(0, Math.floor((characterLimit - FILE_CONTENT_OVERHEAD) / 4) * 3);
+        if (end - offset > maxBytes) {
+          throw new ResponseTooLargeError(
+            `Reading ${end - offset} bytes exceeds the response limit of ${characterLimit} characters`,
+            Math.ceil((end - offset) / 3) * 4,
+            characterLimit,
+            `Read the file (${size} bytes) in ranges of at most ${maxBytes} bytes using offset and length.`
+          );
+        }
+
         // Convert ArrayBuffer to Base64
-        const bytes = new Uint8Array(content);
+        const bytes = new Uint8Array(content, offset, end - offset);
         let binary = '';
         for (let i = 0; i < bytes.byteLength; i++) {
           binary += String.fromCharCode(bytes[i]);
@@ -118,6 +166,11 @@ Returns:
                 {
                   success: true,
                   encoding: 'base64',
+                  size,
+                  offset,
+                  length: end - offset,
+                  hasMore: end < size,
+                  nextOffset: end < size ? end : undefined,
                   content: base64,
                 },
                 null,
@@ -0,0 +1,63 @@
+/**
+ * Generator Tools
+ *
+ * MCP tools for generating passwords and passphrases.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { generatePassphrase, generatePassword } from '../utils/generator.js';
+import { passwordRecipeSchema } from './schemas.js';
+
+/**
+ * Register all generator tools
+ *
+ * @param server - MCP server instance
+ * @param env - Worker environment (response size limit)
+ */
+export function registerGeneratorTools(server: McpServer, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Generate Password
+  // ===========================================================================
+  server.tool(
+    '1password_generate_password',
+    `Generate a random password or a diceware-style passphrase.
+
+To store a generated secret without it passing through the conversation, prefer
+create_item/update_item with a field that sets generate: true and a recipe.
+
+Args:
+  - mode: 'password' (from a recipe) or 'passphrase' (from the EFF wordlist)
+  - recipe: Password recipe with length (1-64), characterSets (LETTERS, DIGITS, SYMBOLS), excludeCharacters
+  - words: Number of passphrase words (default 5)
+  - separator: Passphrase word separator (default '-')
+  - capitalize: Capitalize passphrase words
+  - includeNumber: Append a random digit to one passphrase word
+
+Returns:
+  The generated value with its length and entropy in bits.`,
+    {
+      mode: z.enum(['password', 'passphrase']).default('password'),
+      recipe: passwordRecipeSchema.optional().describe('Password recipe'),
+      words: z.number().int().min(3).max(20).optional().describe('Number of passphrase words'),
+      separator: z.string().max(5).optional().describe('Passphrase word separator'),
+      capitalize: z.boolean().optional().describe('Capitalize passphrase words'),
+      includeNumber: z.boolean().optional().describe('Append a digit to one passphrase word'),
+    },
+    async ({ mode, recipe, words, separator, capitalize, includeNumber }) => {
+      try {
+        const generated =
+          mode === 'passphrase'
+            ? generatePassphrase({ words, separator, capitalize, includeNumber })
+            : generatePassword(recipe);
+        return formatResponse({ mode, ...generated }, 'json', 'password', characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
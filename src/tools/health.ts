@@ -7,6 +7,7 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { OnePasswordClient } from '../client.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
 
 /**
@@ -14,8 +15,11 @@ import { formatError, formatResponse } from '../utils/formatters.js';
  *
  * @param server - MCP server instance
  * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
  */
-export function registerHealthTools(server: McpServer, client: OnePasswordClient): void {
+export function registerHealthTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Get Health
   // ===========================================================================
@@ -33,10 +37,10 @@ Returns:
     {
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ format }) => {
+    async ({ format }, extra) => {
       try {
-        const health = await client.getHealth();
-        return formatResponse(health, format, 'health');
+        const health = await client.getHealth({ signal: extra.signal });
+        return formatResponse(health, format, 'health', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -53,9 +57,9 @@ Returns:
 Returns:
   A simple response indicating the server is alive.`,
     {},
-    async () => {
+    async (_args, extra) => {
       try {
-        const response = await client.heartbeat();
+        const response = await client.heartbeat({ signal: extra.signal });
         return {
           content: [
             {
@@ -0,0 +1,215 @@
+/**
+ * Import Tools
+ *
+ * MCP tool for importing items from other password managers' exports.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient } from '../client.js';
+import { previewCreate } from '../dry-run.js';
+import {
+  type CsvMapping,
+  createDuplicateIndex,
+  parseImport,
+  toCreateInput,
+} from '../import/index.js';
+import type { ItemCategory, ItemCreateInput } from '../types/entities.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { DEFAULT_CONCURRENCY, mapBatch } from '../utils/concurrency.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { batchOptionsShape, itemCategorySchema } from './schemas.js';
+
+/** Largest number of entries accepted by one call */
+const MAX_IMPORT_ENTRIES = 500;
+
+// Schema for CSV column mappings
+const csvMappingSchema = z.object({
+  title: z.string().describe('Title column'),
+  username: z.string().optional().describe('Username column'),
+  password: z.string().optional().describe('Password column'),
+  url: z.string().optional().describe('URL column (one URL per line)'),
+  notes: z.string().optional().describe('Notes column'),
+  totp: z.string().optional().describe('TOTP secret or otpauth:// URI column'),
+  tags: z.string().optional().describe('Tags column (comma or semicolon separated)'),
+  folder: z.string().optional().describe('Folder column, imported as a tag'),
+  category: z.string().optional().describe('Category column'),
+  fields: z
+    .array(
+      z.object({
+        column: z.string().describe('Column name'),
+        label: z.string().optional().describe('Field label (defaults to the column name)'),
+        concealed: z.boolean().optional().describe('Store as a concealed field'),
+      })
+    )
+    .optional()
+    .describe('Further columns to import as custom fields'),
+});
+
+/**
+ * Outcome of one exported entry
+ */
+interface ImportResult {
+  row: number;
+  title?: string;
+  status: 'created' | 'skipped' | 'failed';
+  /** ID of the created item */
+  itemId?: string;
+  /** Why the entry was skipped or failed */
+  reason?: string;
+}
+
+/**
+ * Register all import tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
+ */
+export function registerImportTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Import
+  // ===========================================================================
+  server.tool(
+    '1password_import',
+    `Import items into a vault from another password manager's export.
+
+Supported formats:
+  - csv: Any CSV with a header row, mapped with a column mapping, e.g.
+    { title: "name", username: "login_username", password: "login_password", url: "login_uri",
+      notes: "notes", folder: "folder" }
+  - bitwarden: Unencrypted Bitwarden JSON export (logins, notes, cards, identities, SSH keys)
+  - keepass: KeePass 2.x XML export (also KeePassXC)
+
+Folders and groups become tags. Entries matching an active item in the vault (or an earlier
+entry) by title and URL are skipped as duplicates unless onDuplicate is "create". Attachments
+are not imported.
+
+Args:
+  - vaultId: The vault UUID or name to import into
+  - format: 'csv', 'bitwarden' or 'keepass'
+  - data: The export file content
+  - mapping: Column mapping (csv only, required)
+  - defaultCategory: Category for CSV rows without one (default LOGIN)
+  - onDuplicate: 'skip' (default) or 'create'
+  - concurrency: Maximum requests in flight (default 4)
+  - stopOnError: Skip the remaining entries after the first failure (default false)
+  - dryRun: Map and validate every entry without creating anything
+
+Returns:
+  { dryRun, total, created, skipped, failed, results: [{ row, title, status, itemId?, reason? }] }
+  With dryRun, "created" counts the entries that would be created.`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      format: z.enum(['csv', 'bitwarden', 'keepass']).describe('Export format'),
+      data: z.string().min(1).describe('Export file content'),
+      mapping: csvMappingSchema.optional().describe('Column mapping (csv only)'),
+      defaultCategory: itemCategorySchema.default('LOGIN').describe('Category for CSV rows'),
+      onDuplicate: z
+        .enum(['skip', 'create'])
+        .default('skip')
+        .describe('What to do with entries that match existing items'),
+      ...batchOptionsShape,
+    },
+    async (
+      {
+        vaultId,
+        format,
+        data,
+        mapping,
+        defaultCategory,
+        onDuplicate,
+        concurrency,
+        stopOnError,
+        dryRun,
+      },
+      extra
+    ) => {
+      try {
+        const options = { signal: extra.signal };
+        const rows = parseImport(
+          format,
+          data,
+          mapping as CsvMapping | undefined,
+          defaultCategory as ItemCategory
+        );
+        if (rows.length > MAX_IMPORT_ENTRIES) {
+          throw new ValidationError(
+            `The export has ${rows.length} entries; import at most ${MAX_IMPORT_ENTRIES} per call`
+          );
+        }
+
+        const vault = await client.getVault(vaultId, options);
+        const duplicates = createDuplicateIndex(
+          onDuplicate === 'skip'
+            ? (await client.listItems(vault.id, undefined, options)).filter(
+                (item) => (item.state ?? 'ACTIVE') === 'ACTIVE'
+              )
+            : []
+        );
+
+        // Decide every row up front, so duplicates within the export are caught in order
+        const results: ImportResult[] = [];
+        const pending: Array<{ result: ImportResult; input: ItemCreateInput }> = [];
+        for (const { row, title, entry, error } of rows) {
+          if (!entry) {
+            results.push({ row, title, status: 'failed', reason: error });
+            continue;
+          }
+          const duplicate = onDuplicate === 'skip' ? duplicates.find(entry) : undefined;
+          if (duplicate) {
+            results.push({ row, title, status: 'skipped', reason: `Duplicate of ${duplicate}` });
+            continue;
+          }
+          duplicates.add(entry, `row ${row}`);
+          const result: ImportResult = { row, title, status: 'created' };
+          results.push(result);
+          pending.push({ result, input: toCreateInput(entry, vault.id) });
+        }
+
+        const outcomes = await mapBatch(
+          pending,
+          { concurrency: concurrency ?? DEFAULT_CONCURRENCY, stopOnError, signal: extra.signal },
+          async ({ input }) =>
+            dryRun
+              ? (await previewCreate(client, vault.id, input, options)).item
+              : client.createItem(vault.id, input, options)
+        );
+        outcomes.forEach((outcome, index) => {
+          const { result } = pending[index];
+          if (outcome.status === 'succeeded') {
+            result.itemId = outcome.value.id || undefined;
+          } else if (outcome.status === 'failed') {
+            result.status = 'failed';
+            result.reason =
+              outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          } else {
+            result.status = 'skipped';
+            result.reason = 'Not attempted after an earlier failure';
+          }
+        });
+
+        const count = (status: ImportResult['status']) =>
+          results.filter((r) => r.status === status).length;
+        return formatResponse(
+          {
+            dryRun,
+            total: results.length,
+            created: count('created'),
+            skipped: count('skipped'),
+            failed: count('failed'),
+            results,
+          },
+          'json',
+          'import',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
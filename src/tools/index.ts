@@ -2,8 +2,15 @@
  * Tool exports
  */
 
-export { registerVaultTools } from './vaults.js';
-export { registerItemTools } from './items.js';
-export { registerFileTools } from './files.js';
 export { registerActivityTools } from './activity.js';
+export { registerBulkTools } from './bulk.js';
+export { registerExportTools } from './export.js';
+export { registerFieldTools } from './fields.js';
+export { registerFileTools } from './files.js';
+export { registerGeneratorTools } from './generator.js';
 export { registerHealthTools } from './health.js';
+export { registerImportTools } from './import.js';
+export { registerItemTools } from './items.js';
+export { registerSearchTools } from './search.js';
+export { registerSecretTools } from './secrets.js';
+export { registerVaultTools } from './vaults.js';
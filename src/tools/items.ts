@@ -7,93 +7,139 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { OnePasswordClient } from '../client.js';
-import type { ItemCategory, ItemField, ItemSection, ItemUrl, JsonPatchOperation } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
-
-// Schema for item fields
-const itemFieldSchema = z.object({
-  id: z.string().describe('Unique identifier for the field'),
-  type: z
-    .enum([
-      'STRING',
-      'CONCEALED',
-      'EMAIL',
-      'URL',
-      'OTP',
-      'DATE',
-      'MONTH_YEAR',
-      'PHONE',
-      'MENU',
-      'FILE',
-      'ADDRESS',
-      'CREDIT_CARD_TYPE',
-      'CREDIT_CARD_NUMBER',
-      'REFERENCE',
-      'SSHKEY',
-    ])
-    .optional()
-    .describe('Type of the field'),
-  purpose: z.enum(['USERNAME', 'PASSWORD', 'NOTES']).optional().describe('Purpose of the field'),
-  label: z.string().optional().describe('Label displayed for the field'),
-  value: z.string().optional().describe('Value of the field'),
-  section: z
-    .object({ id: z.string() })
-    .optional()
-    .describe('Section this field belongs to'),
-});
-
-// Schema for item sections
-const itemSectionSchema = z.object({
-  id: z.string().describe('Unique identifier for the section'),
-  label: z.string().optional().describe('Label for the section'),
-});
-
-// Schema for item URLs
-const itemUrlSchema = z.object({
-  label: z.string().optional().describe('Label for the URL'),
-  primary: z.boolean().optional().describe('Whether this is the primary URL'),
-  href: z.string().describe('The URL'),
-});
-
-// Schema for JSON Patch operations
-const jsonPatchOpSchema = z.object({
-  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']).describe('Operation type'),
-  path: z.string().describe('JSON Pointer path'),
-  value: z.unknown().optional().describe('Value for add/replace/test operations'),
-  from: z.string().optional().describe('From path for move/copy operations'),
-});
-
-const itemCategorySchema = z.enum([
-  'LOGIN',
-  'SECURE_NOTE',
-  'CREDIT_CARD',
-  'IDENTITY',
-  'PASSWORD',
-  'DOCUMENT',
-  'API_CREDENTIAL',
-  'DATABASE',
-  'BANK_ACCOUNT',
-  'CUSTOM',
-  'DRIVER_LICENSE',
-  'EMAIL_ACCOUNT',
-  'MEMBERSHIP',
-  'OUTDOOR_LICENSE',
-  'PASSPORT',
-  'REWARD_PROGRAM',
-  'SERVER',
-  'SOCIAL_SECURITY_NUMBER',
-  'SOFTWARE_LICENSE',
-  'SSH_KEY',
-  'WIRELESS_ROUTER',
-]);
+import { type ConfirmationSubject, type Confirmations, digestChange } from '../confirmation.js';
+import {
+  type DryRunResult,
+  previewArchive,
+  previewCreate,
+  previewDelete,
+  previewPatch,
+  previewTransfer,
+  previewUpdate,
+} from '../dry-run.js';
+import { planTransfer, type TransferPlan, transferItem } from '../transfer.js';
+import type {
+  Item,
+  ItemCategory,
+  ItemCreateInput,
+  ItemField,
+  ItemSection,
+  ItemUpdateInput,
+  ItemUrl,
+  JsonPatchOperation,
+} from '../types/entities.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { diffItems } from '../utils/diff.js';
+import { ValidationError } from '../utils/errors.js';
+import { compileItemFilter } from '../utils/filters.js';
+import { formatError, formatResponse, type ToolResponse } from '../utils/formatters.js';
+import { setStateOperations } from '../utils/item-edits.js';
+import { findField, maskItem } from '../utils/masking.js';
+import { paginate, resolvePageSize } from '../utils/pagination.js';
+import { assertVersion, patchItemAtVersion } from '../versioning.js';
+import {
+  itemCategorySchema,
+  itemFieldSchema,
+  itemFilterSchema,
+  itemSectionSchema,
+  itemUrlSchema,
+  jsonPatchOpSchema,
+} from './schemas.js';
+
+const dryRunSchema = z
+  .boolean()
+  .default(false)
+  .describe('Preview the change without writing to 1Password');
+
+const confirmationTokenSchema = z
+  .string()
+  .optional()
+  .describe('Confirmation token returned by the first call');
 
 /**
  * Register all item-related tools
  *
  * @param server - MCP server instance
  * @param client - 1Password Connect client instance
+ * @param env - Worker environment (page size and response size limits)
+ * @param confirmations - Confirmation tokens for delete and full-replace update
  */
-export function registerItemTools(server: McpServer, client: OnePasswordClient): void {
+export function registerItemTools(
+  server: McpServer,
+  client: OnePasswordClient,
+  env: Env,
+  confirmations: Confirmations
+): void {
+  const characterLimit = getCharacterLimit(env);
+
+  /**
+   * Two-step confirmation for destructive calls. Resolves to undefined when the
+   * call carries a valid token, and otherwise to a confirmation request with a
+   * token to return instead.
+   */
+  const confirm = async (
+    subject: ConfirmationSubject,
+    summary: string,
+    details: Record<string, unknown>,
+    token: string | undefined
+  ): Promise<ToolResponse | undefined> => {
+    if (token !== undefined) {
+      await confirmations.verify(token, subject);
+      return undefined;
+    }
+
+    const body = {
+      success: false,
+      confirmationRequired: true,
+      message: `${summary}. Repeat the call with confirmationToken to proceed.`,
+      ...details,
+      ...(await confirmations.issue(subject)),
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(body, null, 2) }] };
+  };
+
+  /**
+   * Archive or restore an item
+   */
+  const changeState = async (
+    vaultId: string,
+    itemId: string,
+    state: 'ACTIVE' | 'ARCHIVED',
+    expectedVersion: number | undefined,
+    options: { signal: AbortSignal }
+  ): Promise<ToolResponse> => {
+    const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+    const operations = setStateOperations(current, state);
+    const item =
+      operations.length === 0
+        ? current
+        : await patchItemAtVersion(
+            client,
+            current.vault.id,
+            current.id,
+            operations,
+            expectedVersion,
+            options
+          );
+    const verb = state === 'ARCHIVED' ? 'archived' : 'restored';
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              message: operations.length === 0 ? `Item was already ${verb}` : `Item ${verb}`,
+              item: maskItem(item),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  };
+
   // ===========================================================================
   // List Items
   // ===========================================================================
@@ -101,24 +147,47 @@ export function registerItemTools(server: McpServer, client: OnePasswordClient):
     '1password_list_items',
     `List items in a vault.
 
-Returns items without full field/section details. Use get_item to fetch complete details.
+Returns a page of items without full field/section details, sorted by ID. Use get_item to
+fetch complete details. Cursors expire when the vault's content changes.
 
 Args:
-  - vaultId: The vault UUID
-  - filter: Optional filter by title or tag (e.g., 'title eq "My Login"' or 'tag eq "work"')
+  - vaultId: The vault UUID or exact name
+  - filter: Optional structured filter, e.g. { title: { co: "github" }, tag: "work",
+    category: "LOGIN", favorite: true, updatedAfter: "2024-01-01T00:00:00Z" }.
+    A raw filter string (e.g. 'title eq "My Login"') is also accepted and validated.
+  - state: ACTIVE (default), ARCHIVED or ALL
+  - limit: Page size (defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE)
+  - cursor: Cursor from a previous page's nextCursor
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Array of Item objects with id, title, category, vault, tags.`,
+  { items: Item[], count, total, hasMore, nextOffset, nextCursor, page, totalPages }`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      filter: z.string().optional().describe('Filter by title or tag'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      filter: z
+        .union([itemFilterSchema, z.string()])
+        .optional()
+        .describe('Structured filter or raw filter string'),
+      state: z.enum(['ACTIVE', 'ARCHIVED', 'ALL']).default('ACTIVE').describe('Item state to list'),
+      limit: z.number().int().min(1).optional().describe('Page size'),
+      cursor: z.string().optional().describe('Cursor from a previous page'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ vaultId, filter, format }) => {
+    async ({ vaultId, filter, state, limit, cursor, format }, extra) => {
       try {
-        const items = await client.listItems(vaultId, filter);
-        return formatResponse(items, format, 'items');
+        const options = { signal: extra.signal };
+        const compiled = compileItemFilter(filter);
+        const vault = await client.getVault(vaultId, options);
+        const items = (await client.listItems(vault.id, compiled.connectFilter, options)).filter(
+          // Items without a state are active
+          (item) =>
+            (state === 'ALL' || (item.state ?? 'ACTIVE') === state) && compiled.matches(item)
+        );
+        const page = paginate(items, resolvePageSize(env, limit), cursor, {
+          scope: `items:${vault.id}:${state}:${JSON.stringify(filter ?? '')}`,
+          version: vault.contentVersion ?? '',
+        });
+        return formatResponse(page, format, 'items', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -132,22 +201,137 @@ Returns:
     '1password_get_item',
     `Get complete details for a specific item including all fields and sections.
 
+Secret values (CONCEALED, OTP, SSHKEY, CREDIT_CARD_NUMBER and password fields) are masked,
+with length and entropy hints. Use reveal_field to read a single secret value.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  Full Item object with all fields, sections, URLs, and metadata (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ vaultId, itemId, format }, extra) => {
+      try {
+        const item = await client.getItem(vaultId, itemId, { signal: extra.signal });
+        return formatResponse(item, format, 'item', characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Reveal Field
+  // ===========================================================================
+  server.tool(
+    '1password_reveal_field',
+    `Reveal the plaintext value of a single field on an item.
+
+Only use this when the secret value itself is needed.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - field: Field ID or label (labels are matched case-insensitively and must be unique)
+  - section: Optional section ID or label to narrow the field lookup
+
+Returns:
+  The field's id, label, type, purpose, section, and unmasked value.`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      field: z.string().describe('Field ID or label'),
+      section: z.string().optional().describe('Section ID or label'),
+    },
+    async ({ vaultId, itemId, field, section }, extra) => {
+      try {
+        const item = await client.getItem(vaultId, itemId, { signal: extra.signal });
+        const found = findField(item, field, section);
+        return formatResponse(
+          {
+            id: found.id,
+            label: found.label,
+            type: found.type,
+            purpose: found.purpose,
+            section: found.section,
+            value: found.value,
+          },
+          'json',
+          'field',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Diff Items
+  // ===========================================================================
+  server.tool(
+    '1password_diff_items',
+    `Compare an item with another item, or with a proposed update_item replacement.
+
+Fields are matched by id, then purpose, then label. Reports added, removed and changed
+fields, sections, URLs and tags. Secret values are never shown: sensitive fields only report
+whether their value changed. Use proposed to preview an update_item call before making it.
+
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - otherItemId: Item to compare against (UUID or exact title)
+  - otherVaultId: Vault of the other item (defaults to vaultId)
+  - proposed: A full replacement as passed to update_item (title, category, fields, sections,
+    urls, tags, favorite); omitted arrays count as empty
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  Full Item object with all fields, sections, URLs, and metadata.`,
+  { identical, summary, properties, fields, sections, urls, tags, secrets }`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      otherItemId: z.string().optional().describe('Item UUID or title to compare against'),
+      otherVaultId: z.string().optional().describe('Vault UUID or name of the other item'),
+      proposed: z
+        .object({
+          title: z.string().optional().describe('Title of the item'),
+          category: itemCategorySchema.optional().describe('Item category'),
+          fields: z.array(itemFieldSchema).optional().describe('Item fields'),
+          sections: z.array(itemSectionSchema).optional().describe('Item sections'),
+          urls: z.array(itemUrlSchema).optional().describe('Item URLs'),
+          tags: z.array(z.string()).optional().describe('Item tags'),
+          favorite: z.boolean().optional().describe('Whether to mark as favorite'),
+        })
+        .optional()
+        .describe('Proposed update_item replacement'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ vaultId, itemId, format }) => {
+    async ({ vaultId, itemId, otherItemId, otherVaultId, proposed, format }, extra) => {
       try {
-        const item = await client.getItem(vaultId, itemId);
-        return formatResponse(item, format, 'item');
+        if ((otherItemId === undefined) === (proposed === undefined)) {
+          throw new ValidationError('Provide exactly one of otherItemId or proposed');
+        }
+
+        const options = { signal: extra.signal };
+        const item = await client.getItem(vaultId, itemId, options);
+        const other = otherItemId
+          ? await client.getItem(otherVaultId ?? vaultId, otherItemId, options)
+          : {
+              ...proposed,
+              category: proposed?.category as ItemCategory | undefined,
+              fields: proposed?.fields as ItemField[] | undefined,
+              sections: proposed?.sections as ItemSection[] | undefined,
+              urls: proposed?.urls as ItemUrl[] | undefined,
+            };
+
+        return formatResponse(diffItems(item, other), format, 'diff', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -162,25 +346,29 @@ Returns:
     `Create a new item in a vault.
 
 Args:
-  - vaultId: The vault UUID to create the item in
+  - vaultId: The vault UUID or name to create the item in
   - title: Title of the item
   - category: Item category (LOGIN, SECURE_NOTE, PASSWORD, API_CREDENTIAL, etc.)
-  - fields: Array of field objects with id, type, label, value, purpose, section
+  - fields: Array of field objects with id, type, label, value, purpose, section, generate, recipe
   - sections: Optional array of section objects with id and label
   - urls: Optional array of URL objects with href, label, primary
   - tags: Optional array of tags
   - favorite: Whether to mark as favorite
+  - dryRun: Validate and return the item that would be created, without creating it
 
 Returns:
-  The created Item object with assigned UUID.
+  The created Item object with assigned UUID (secret values masked).
 
 Example fields:
   [
     { "id": "username", "type": "STRING", "purpose": "USERNAME", "label": "Username", "value": "user@example.com" },
-    { "id": "password", "type": "CONCEALED", "purpose": "PASSWORD", "label": "Password", "value": "secret123" }
-  ]`,
+    { "id": "password", "type": "CONCEALED", "purpose": "PASSWORD", "label": "Password", "generate": true, "recipe": { "length": 24, "characterSets": ["LETTERS", "DIGITS"] } }
+  ]
+
+Set generate: true (optionally with a recipe) instead of a value to have the secret generated
+without it ever appearing in the conversation.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
       title: z.string().describe('Title of the item'),
       category: itemCategorySchema.describe('Item category'),
       fields: z.array(itemFieldSchema).optional().describe('Item fields'),
@@ -188,10 +376,12 @@ Example fields:
       urls: z.array(itemUrlSchema).optional().describe('Item URLs'),
       tags: z.array(z.string()).optional().describe('Item tags'),
       favorite: z.boolean().optional().describe('Whether to mark as favorite'),
+      dryRun: dryRunSchema,
     },
-    async ({ vaultId, title, category, fields, sections, urls, tags, favorite }) => {
+    async ({ vaultId, title, category, fields, sections, urls, tags, favorite, dryRun }, extra) => {
       try {
-        const item = await client.createItem(vaultId, {
+        const options = { signal: extra.signal };
+        const input: ItemCreateInput = {
           title,
           category: category as ItemCategory,
           vault: { id: vaultId },
@@ -200,12 +390,21 @@ Example fields:
           urls: urls as ItemUrl[] | undefined,
           tags,
           favorite,
-        });
+        };
+        if (dryRun) {
+          return dryRunResponse(await previewCreate(client, vaultId, input, options));
+        }
+
+        const item = await client.createItem(vaultId, input, options);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Item created', item }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Item created', item: maskItem(item) },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -226,21 +425,28 @@ This is a full replacement - all fields must be provided.
 Use patch_item for partial updates.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
   - title: New title for the item
   - category: Item category
-  - fields: Complete array of field objects
+  - fields: Complete array of field objects (set generate: true with a recipe to regenerate a secret)
   - sections: Complete array of section objects
   - urls: Complete array of URL objects
   - tags: Complete array of tags
   - favorite: Whether to mark as favorite
+  - expectedVersion: Only update if the item is still at this version (from get_item)
+  - dryRun: Return the resulting item and a diff without updating
+  - confirmationToken: Token from a previous call, confirming this exact update
+
+The first call asks the user to confirm (when the client supports it) or returns a summary
+with a short-lived confirmationToken; repeat the identical call with the token to update.
 
 Returns:
-  The updated Item object.`,
+  The updated Item object (secret values masked). If expectedVersion no longer matches,
+  a VERSION_CONFLICT error with the current version and a summary of the change.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
       title: z.string().describe('Title of the item'),
       category: itemCategorySchema.describe('Item category'),
       fields: z.array(itemFieldSchema).optional().describe('Item fields'),
@@ -248,10 +454,30 @@ Returns:
       urls: z.array(itemUrlSchema).optional().describe('Item URLs'),
       tags: z.array(z.string()).optional().describe('Item tags'),
       favorite: z.boolean().optional().describe('Whether to mark as favorite'),
+      expectedVersion: z.number().int().optional().describe('Item version the update is based on'),
+      dryRun: dryRunSchema,
+      confirmationToken: confirmationTokenSchema,
     },
-    async ({ vaultId, itemId, title, category, fields, sections, urls, tags, favorite }) => {
+    async (
+      {
+        vaultId,
+        itemId,
+        title,
+        category,
+        fields,
+        sections,
+        urls,
+        tags,
+        favorite,
+        expectedVersion,
+        dryRun,
+        confirmationToken,
+      },
+      extra
+    ) => {
       try {
-        const item = await client.updateItem(vaultId, itemId, {
+        const options = { signal: extra.signal };
+        const input: ItemUpdateInput = {
           id: itemId,
           title,
           category: category as ItemCategory,
@@ -261,12 +487,60 @@ Returns:
           urls: urls as ItemUrl[] | undefined,
           tags,
           favorite,
-        });
+        };
+        const preview = await previewUpdate(
+          client,
+          vaultId,
+          itemId,
+          input,
+          expectedVersion,
+          options
+        );
+        if (dryRun) {
+          return dryRunResponse(preview);
+        }
+
+        const current = preview.item;
+        const { id: _id, vault: _vault, ...change } = input;
+        const pending = await confirm(
+          {
+            action: 'update',
+            vaultId: current.vault.id,
+            itemId: current.id,
+            version: current.version,
+            digest: await digestChange(change),
+          },
+          `Replace '${current.title}' (${preview.diff?.summary ?? 'no changes'})`,
+          { diff: preview.diff },
+          confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        // Send the scalars the preview resolved, so omitted ones keep their current values
+        const item = await client.updateItem(
+          current.vault.id,
+          current.id,
+          {
+            ...input,
+            id: current.id,
+            vault: { id: current.vault.id },
+            title: current.title,
+            category: current.category,
+            favorite: current.favorite,
+          },
+          options
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Item updated', item }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Item updated', item: maskItem(item) },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -286,9 +560,12 @@ Returns:
 This allows updating specific fields without providing the entire item.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
   - operations: Array of JSON Patch operations
+  - expectedVersion: Only patch if the item is still at this version (from get_item)
+  - dryRun: Apply the operations locally and return the resulting item and a diff without
+    patching; an operation that cannot be applied is reported with its index
 
 Operation format:
   { "op": "replace", "path": "/title", "value": "New Title" }
@@ -296,20 +573,42 @@ Operation format:
   { "op": "remove", "path": "/fields/0" }
 
 Returns:
-  The updated Item object.`,
+  The updated Item object (secret values masked). If expectedVersion no longer matches,
+  a VERSION_CONFLICT error with the current version and a summary of the patch.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
       operations: z.array(jsonPatchOpSchema).describe('JSON Patch operations'),
+      expectedVersion: z.number().int().optional().describe('Item version the patch is based on'),
+      dryRun: dryRunSchema,
     },
-    async ({ vaultId, itemId, operations }) => {
+    async ({ vaultId, itemId, operations, expectedVersion, dryRun }, extra) => {
       try {
-        const item = await client.patchItem(vaultId, itemId, operations as JsonPatchOperation[]);
+        const options = { signal: extra.signal };
+        const ops = operations as JsonPatchOperation[];
+        if (dryRun) {
+          return dryRunResponse(
+            await previewPatch(client, vaultId, itemId, ops, expectedVersion, options)
+          );
+        }
+
+        const item = await patchItemAtVersion(
+          client,
+          vaultId,
+          itemId,
+          ops,
+          expectedVersion,
+          options
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ success: true, message: 'Item patched', item }, null, 2),
+              text: JSON.stringify(
+                { success: true, message: 'Item patched', item: maskItem(item) },
+                null,
+                2
+              ),
             },
           ],
         };
@@ -319,28 +618,295 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Archive / Restore Item
+  // ===========================================================================
+  server.tool(
+    '1password_archive_item',
+    `Move an item to the vault's archive. Archived items can be listed with
+list_items (state: ARCHIVED) and brought back with restore_item.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - expectedVersion: Only archive if the item is still at this version
+  - dryRun: Show the item that would be archived, without archiving
+
+Returns:
+  The archived Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      expectedVersion: z.number().int().optional().describe('Item version the change is based on'),
+      dryRun: dryRunSchema,
+    },
+    async ({ vaultId, itemId, expectedVersion, dryRun }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        if (dryRun) {
+          return dryRunResponse(
+            await previewArchive(client, vaultId, itemId, expectedVersion, options)
+          );
+        }
+        return await changeState(vaultId, itemId, 'ARCHIVED', expectedVersion, options);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    '1password_restore_item',
+    `Restore an archived item.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - expectedVersion: Only restore if the item is still at this version
+
+Returns:
+  The restored Item object (secret values masked).`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      expectedVersion: z.number().int().optional().describe('Item version the change is based on'),
+    },
+    async ({ vaultId, itemId, expectedVersion }, extra) => {
+      try {
+        return await changeState(vaultId, itemId, 'ACTIVE', expectedVersion, {
+          signal: extra.signal,
+        });
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Copy / Move Item
+  // ===========================================================================
+  server.tool(
+    '1password_copy_item',
+    `Copy an item to another vault.
+
+The copy is rebuilt from the source's fields, sections, URLs and tags, then re-read and
+checked against the source. Attached files cannot be uploaded through Connect, so they are
+not copied; they are listed in untransferredFiles.
+
+Args:
+  - vaultId: The source vault UUID or exact name
+  - itemId: The source item UUID or exact title
+  - targetVaultId: The target vault UUID or exact name
+  - title: Optional title for the copy (defaults to the source title)
+  - dryRun: Show the item that would be created, without creating it
+
+Returns:
+  { success, message, item, source, untransferredFiles } (secret values masked).`,
+    {
+      vaultId: z.string().describe('Source vault UUID or name'),
+      itemId: z.string().describe('Source item UUID or title'),
+      targetVaultId: z.string().describe('Target vault UUID or name'),
+      title: z.string().optional().describe('Title for the copy'),
+      dryRun: dryRunSchema,
+    },
+    async ({ vaultId, itemId, targetVaultId, title, dryRun }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        const source = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+        const target = await client.getVault(targetVaultId, options);
+        const plan = await planTransfer(client, source, target.id, title, options);
+        if (dryRun) {
+          return dryRunResponse(await previewTransfer(client, plan, 'copy', options));
+        }
+
+        const copy = await transferItem(client, plan, options);
+        return transferResponse(true, `Item copied to vault ${target.name}`, copy, plan);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  server.tool(
+    '1password_move_item',
+    `Move an item to another vault.
+
+Connect has no native move: the item is copied to the target vault and re-read to verify
+it, and only then is the source archived (default) or, with mode: "delete", permanently
+deleted. If the source is edited while the copy is made, it is left in place.
+
+Attached files cannot be uploaded through Connect and are listed in untransferredFiles. They
+stay on the archived source; a permanent delete is refused for items with attached files.
+
+Args:
+  - vaultId: The source vault UUID or exact name
+  - itemId: The source item UUID or exact title
+  - targetVaultId: The target vault UUID or exact name
+  - mode: 'archive' (default) or 'delete' for the source
+  - expectedVersion: Only move if the source is still at this version
+  - dryRun: Show the item that would be created, without changing anything
+  - confirmationToken: Token from a previous call, confirming a move with mode: "delete"
+
+Returns:
+  { success, message, item, source, untransferredFiles } (secret values masked).`,
+    {
+      vaultId: z.string().describe('Source vault UUID or name'),
+      itemId: z.string().describe('Source item UUID or title'),
+      targetVaultId: z.string().describe('Target vault UUID or name'),
+      mode: z
+        .enum(['archive', 'delete'])
+        .default('archive')
+        .describe('Archive (recoverable) or delete the source permanently'),
+      expectedVersion: z.number().int().optional().describe('Item version the move is based on'),
+      dryRun: dryRunSchema,
+      confirmationToken: confirmationTokenSchema,
+    },
+    async (
+      { vaultId, itemId, targetVaultId, mode, expectedVersion, dryRun, confirmationToken },
+      extra
+    ) => {
+      try {
+        const options = { signal: extra.signal };
+        const source = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+        assertVersion(source, expectedVersion, () => 'move the item');
+        const target = await client.getVault(targetVaultId, options);
+        if (target.id === source.vault.id) {
+          throw new ValidationError(`'${source.title}' is already in vault ${target.name}`);
+        }
+
+        const plan = await planTransfer(client, source, target.id, undefined, options);
+        if (mode === 'delete' && plan.files.length > 0) {
+          throw new ValidationError(
+            `'${source.title}' has ${plan.files.length} attached file(s) that cannot be transferred; use mode "archive" to keep them on the archived source`,
+            { files: plan.files.map((file) => file.name) }
+          );
+        }
+        if (dryRun) {
+          return dryRunResponse(await previewTransfer(client, plan, 'move', options));
+        }
+
+        if (mode === 'delete') {
+          const pending = await confirm(
+            {
+              action: 'move',
+              vaultId: source.vault.id,
+              itemId: source.id,
+              version: source.version,
+              digest: await digestChange({ targetVaultId: target.id }),
+            },
+            `Move '${source.title}' to vault ${target.name} and permanently delete the original`,
+            {
+              item: { id: source.id, title: source.title, category: source.category },
+              targetVault: { id: target.id, name: target.name },
+            },
+            confirmationToken
+          );
+          if (pending) {
+            return pending;
+          }
+        }
+
+        const copy = await transferItem(client, plan, options);
+        const verb = mode === 'delete' ? 'deleted' : 'archived';
+        try {
+          // Both removals are tied to the version read above
+          if (mode === 'delete') {
+            const current = await client.getItem(source.vault.id, source.id, {
+              ...options,
+              noCache: true,
+            });
+            assertVersion(current, source.version, () => 'delete the source item');
+            await client.deleteItem(source.vault.id, source.id, options);
+          } else {
+            await patchItemAtVersion(
+              client,
+              source.vault.id,
+              source.id,
+              setStateOperations(source, 'ARCHIVED'),
+              source.version,
+              options
+            );
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          return transferResponse(
+            false,
+            `Item copied to vault ${target.name}, but the source was not ${verb}: ${reason}`,
+            copy,
+            plan
+          );
+        }
+        return transferResponse(
+          true,
+          `Item moved to vault ${target.name}; the source was ${verb}`,
+          copy,
+          plan
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Delete Item
   // ===========================================================================
   server.tool(
     '1password_delete_item',
-    `Permanently delete an item from a vault.
+    `Remove an item from a vault. By default the item is archived (recoverable with
+restore_item); mode: "delete" deletes it permanently.
 
-WARNING: This action cannot be undone.
+WARNING: A permanent delete cannot be undone.
 
 Args:
-  - vaultId: The vault UUID
-  - itemId: The item UUID to delete
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title to delete
+  - mode: 'archive' (default) or 'delete'
+  - dryRun: Show the item (and, for delete, attached files) that would be removed
+  - confirmationToken: Token from a previous call, confirming a permanent delete
+
+A permanent delete first asks the user to confirm (when the client supports it) or returns a
+summary with a short-lived confirmationToken; repeat the call with the token to delete.
 
 Returns:
-  Confirmation of deletion.`,
+  Confirmation of deletion, or the archived Item object.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
-      itemId: z.string().describe('Item UUID to delete'),
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title to delete'),
+      mode: z
+        .enum(['archive', 'delete'])
+        .default('archive')
+        .describe('Archive (recoverable) or delete permanently'),
+      dryRun: dryRunSchema,
+      confirmationToken: confirmationTokenSchema,
     },
-    async ({ vaultId, itemId }) => {
+    async ({ vaultId, itemId, mode, dryRun, confirmationToken }, extra) => {
       try {
-        await client.deleteItem(vaultId, itemId);
+        const options = { signal: extra.signal };
+        if (mode === 'archive') {
+          return dryRun
+            ? dryRunResponse(await previewArchive(client, vaultId, itemId, undefined, options))
+            : await changeState(vaultId, itemId, 'ARCHIVED', undefined, options);
+        }
+
+        const preview = await previewDelete(client, vaultId, itemId, options);
+        if (dryRun) {
+          return dryRunResponse(preview);
+        }
+
+        const { item, files = [] } = preview;
+        const pending = await confirm(
+          { action: 'delete', vaultId: item.vault.id, itemId: item.id, version: item.version },
+          `Permanently delete '${item.title}' from vault ${item.vault.name ?? item.vault.id}` +
+            (files.length > 0 ? ` with ${files.length} attached file(s)` : ''),
+          { item: { id: item.id, title: item.title, category: item.category }, files },
+          confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        await client.deleteItem(item.vault.id, item.id, options);
         return {
           content: [
             {
@@ -359,3 +925,56 @@ Returns:
     }
   );
 }
+
+/**
+ * Render a dry-run preview (secret values masked)
+ */
+function dryRunResponse(result: DryRunResult): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            success: true,
+            message: `Dry run: no changes were made (${result.action})`,
+            ...result,
+            item: maskItem(result.item),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Render the outcome of a copy or move (secret values masked)
+ */
+function transferResponse(
+  success: boolean,
+  message: string,
+  item: Item,
+  plan: TransferPlan
+): ToolResponse {
+  const { source, files } = plan;
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            success,
+            message,
+            item: maskItem(item),
+            source: { id: source.id, title: source.title, vaultId: source.vault.id },
+            untransferredFiles: files,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Shared Tool Schemas
+ *
+ * Zod schemas used by more than one tool module.
+ */
+
+import { z } from 'zod';
+
+// Schema for password recipes (generated fields and the password generator)
+export const passwordRecipeSchema = z.object({
+  length: z.number().int().min(1).max(64).optional().describe('Password length (default 32)'),
+  characterSets: z
+    .array(z.enum(['LETTERS', 'DIGITS', 'SYMBOLS']))
+    .optional()
+    .describe('Character sets to include (default all)'),
+  excludeCharacters: z.string().optional().describe('Characters to exclude'),
+});
+
+// Schema for item fields
+export const itemFieldSchema = z.object({
+  id: z.string().describe('Unique identifier for the field'),
+  type: z
+    .enum([
+      'STRING',
+      'CONCEALED',
+      'EMAIL',
+      'URL',
+      'OTP',
+      'DATE',
+      'MONTH_YEAR',
+      'PHONE',
+      'MENU',
+      'FILE',
+      'ADDRESS',
+      'CREDIT_CARD_TYPE',
+      'CREDIT_CARD_NUMBER',
+      'REFERENCE',
+      'SSHKEY',
+    ])
+    .optional()
+    .describe('Type of the field'),
+  purpose: z.enum(['USERNAME', 'PASSWORD', 'NOTES']).optional().describe('Purpose of the field'),
+  label: z.string().optional().describe('Label displayed for the field'),
+  value: z.string().optional().describe('Value of the field'),
+  generate: z
+    .boolean()
+    .optional()
+    .describe('Generate the value on the server instead of providing it'),
+  recipe: passwordRecipeSchema.optional().describe('Recipe used when generate is true'),
+  section: z
+    .object({ id: z.string() })
+    .optional()
+    .describe('Section this field belongs to'),
+});
+
+// Schema for item sections
+export const itemSectionSchema = z.object({
+  id: z.string().describe('Unique identifier for the section'),
+  label: z.string().optional().describe('Label for the section'),
+});
+
+// Schema for item URLs
+export const itemUrlSchema = z.object({
+  label: z.string().optional().describe('Label for the URL'),
+  primary: z.boolean().optional().describe('Whether this is the primary URL'),
+  href: z.string().describe('The URL'),
+});
+
+// Schema for JSON Patch operations
+export const jsonPatchOpSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']).describe('Operation type'),
+  path: z.string().describe('JSON Pointer path'),
+  value: z.unknown().optional().describe('Value for add/replace/test operations'),
+  from: z.string().optional().describe('From path for move/copy operations'),
+});
+
+// Schema for item categories
+export const itemCategorySchema = z.enum([
+  'LOGIN',
+  'SECURE_NOTE',
+  'CREDIT_CARD',
+  'IDENTITY',
+  'PASSWORD',
+  'DOCUMENT',
+  'API_CREDENTIAL',
+  'DATABASE',
+  'BANK_ACCOUNT',
+  'CUSTOM',
+  'DRIVER_LICENSE',
+  'EMAIL_ACCOUNT',
+  'MEMBERSHIP',
+  'OUTDOOR_LICENSE',
+  'PASSPORT',
+  'REWARD_PROGRAM',
+  'SERVER',
+  'SOCIAL_SECURITY_NUMBER',
+  'SOFTWARE_LICENSE',
+  'SSH_KEY',
+  'WIRELESS_ROUTER',
+]);
+
+// Schema for a string attribute match (exactly one operator)
+const stringMatchSchema = z
+  .object({
+    eq: z.string().optional().describe('Equals'),
+    co: z.string().optional().describe('Contains'),
+    sw: z.string().optional().describe('Starts with'),
+  })
+  .refine((match) => Object.values(match).filter((v) => v !== undefined).length === 1, {
+    message: 'Provide exactly one of eq, co or sw',
+  });
+
+// Schema for structured item filters (list_items)
+export const itemFilterSchema = z.object({
+  title: stringMatchSchema.optional().describe('Match the title'),
+  tag: z.string().optional().describe('Only items with this tag'),
+  category: itemCategorySchema.optional().describe('Only items of this category'),
+  favorite: z.boolean().optional().describe('Only favorite / non-favorite items'),
+  updatedAfter: z.string().optional().describe('Only items updated after (ISO 8601)'),
+});
+
+// Schema for structured vault filters (list_vaults)
+export const vaultFilterSchema = z.object({
+  name: stringMatchSchema.optional().describe('Match the name'),
+});
+
+// Options shared by the batch tools (bulk, import)
+export const batchOptionsShape = {
+  concurrency: z.number().int().min(1).max(10).optional().describe('Requests in flight'),
+  stopOnError: z.boolean().default(false).describe('Skip remaining items after a failure'),
+  dryRun: z.boolean().default(false).describe('Preview every item without writing'),
+};
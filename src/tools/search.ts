@@ -0,0 +1,190 @@
+/**
+ * Search Tools
+ *
+ * MCP tool for searching items across vaults.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient, RequestOptions } from '../client.js';
+import type { Item, Vault } from '../types/entities.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { DEFAULT_CONCURRENCY, mapSettled } from '../utils/concurrency.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { resolvePageSize } from '../utils/pagination.js';
+import { type AttributeMatch, matchItem, type SearchResult } from '../utils/search.js';
+
+/**
+ * Register all search tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ * @param env - Worker environment (page size and response size limits)
+ */
+export function registerSearchTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Search
+  // ===========================================================================
+  server.tool(
+    '1password_search',
+    `Search items across all accessible vaults (or a chosen subset).
+
+Matches titles, tags and URLs case-insensitively, by substring or fuzzily (characters in
+order), and ranks the results. Set includeFields to also match field labels; this fetches
+every item in the searched vaults and is slower. Field values are never searched.
+Archived items are left out unless state is ARCHIVED or ALL.
+
+Args:
+  - query: Text to search for
+  - vaultIds: Optional vault UUIDs or names to limit the search to
+  - includeFields: Also match field labels (default false)
+  - state: ACTIVE (default), ARCHIVED or ALL
+  - limit: Maximum results (defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE)
+  - concurrency: Maximum requests in flight (default 4)
+  - format: Response format ('json' or 'markdown')
+
+Returns:
+  { query, total, results: [{ vault, item: { id, title, category, state }, score, matches: [{ attribute, value, highlight, score }] }],
+    vaultsSearched, errors: [{ vault: { id?, name }, error }] }. Matched characters are wrapped
+  in ** in highlight. Vaults that cannot be resolved or searched are listed in errors.`,
+    {
+      query: z.string().min(1).describe('Text to search for'),
+      vaultIds: z.array(z.string()).optional().describe('Vault UUIDs or names to search'),
+      includeFields: z.boolean().default(false).describe('Also match field labels'),
+      state: z
+        .enum(['ACTIVE', 'ARCHIVED', 'ALL'])
+        .default('ACTIVE')
+        .describe('Item state to search'),
+      limit: z.number().int().min(1).optional().describe('Maximum results'),
+      concurrency: z.number().int().min(1).max(10).optional().describe('Requests in flight'),
+      format: z.enum(['json', 'markdown']).default('json'),
+    },
+    async ({ query, vaultIds, includeFields, state, limit, concurrency, format }, extra) => {
+      try {
+        const options = { signal: extra.signal };
+        const parallel = concurrency ?? DEFAULT_CONCURRENCY;
+
+        const errors: SearchError[] = [];
+        let vaults: Vault[];
+        if (vaultIds) {
+          // A vault that cannot be resolved is reported rather than failing the search
+          const resolved = await mapSettled(vaultIds, parallel, (id) =>
+            client.getVault(id, options)
+          );
+          vaults = [];
+          resolved.forEach((outcome, index) => {
+            if (outcome.status === 'fulfilled') {
+              vaults.push(outcome.value);
+            } else {
+              errors.push({
+                vault: { name: vaultIds[index] },
+                error: errorMessage(outcome.reason),
+              });
+            }
+          });
+        } else {
+          vaults = await client.listVaults(undefined, options);
+        }
+
+        // Full fetches fan out per item, so vaults are then searched one at a time
+        const settled = await mapSettled(vaults, includeFields ? 1 : parallel, (vault) =>
+          searchVault(client, vault, query, { includeFields, state }, parallel, options)
+        );
+
+        const results: SearchResult[] = [];
+        let failed = 0;
+        settled.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            results.push(...outcome.value);
+          } else {
+            const { id, name } = vaults[index];
+            errors.push({ vault: { id, name }, error: errorMessage(outcome.reason) });
+            failed++;
+          }
+        });
+
+        results.sort((a, b) => b.score - a.score || a.item.title.localeCompare(b.item.title));
+
+        return formatResponse(
+          {
+            query,
+            total: results.length,
+            results: results.slice(0, resolvePageSize(env, limit)),
+            vaultsSearched: vaults.length - failed,
+            errors,
+          },
+          format,
+          'search',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
+
+/**
+ * A vault that could not be resolved or searched
+ */
+interface SearchError {
+  /** The vault, or only the requested name when it could not be resolved */
+  vault: { id?: string; name: string };
+  error: string;
+}
+
+function errorMessage(reason: unknown): string {
+  return reason instanceof Error ? reason.message : String(reason);
+}
+
+/**
+ * Search the items of one vault
+ */
+async function searchVault(
+  client: OnePasswordClient,
+  vault: Vault,
+  query: string,
+  { includeFields, state }: { includeFields: boolean; state: 'ACTIVE' | 'ARCHIVED' | 'ALL' },
+  concurrency: number,
+  options: RequestOptions
+): Promise<SearchResult[]> {
+  // Items without a state are active
+  let items = (await client.listItems(vault.id, undefined, options)).filter(
+    (item) => state === 'ALL' || (item.state ?? 'ACTIVE') === state
+  );
+
+  if (includeFields) {
+    const fetched = await mapSettled(items, concurrency, (item) =>
+      client.getItem(vault.id, item.id, options)
+    );
+    // Fall back to the summary for items that could not be fetched
+    items = fetched.map((outcome, index) =>
+      outcome.status === 'fulfilled' ? outcome.value : items[index]
+    );
+  }
+
+  const results: SearchResult[] = [];
+  for (const item of items) {
+    const matches = matchItem(query, item, includeFields);
+    if (matches.length > 0) {
+      results.push(toResult(vault, item, matches));
+    }
+  }
+  return results;
+}
+
+function toResult(vault: Vault, item: Item, matches: AttributeMatch[]): SearchResult {
+  return {
+    vault: { id: vault.id, name: vault.name },
+    item: {
+      id: item.id,
+      title: item.title,
+      category: item.category,
+      state: item.state ?? 'ACTIVE',
+    },
+    score: matches[0].score,
+    matches,
+  };
+}
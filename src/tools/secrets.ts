@@ -0,0 +1,201 @@
+/**
+ * Secret Tools
+ *
+ * MCP tools for resolving 1Password secret references, injecting them into templates,
+ * and computing one-time passwords.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { OnePasswordClient } from '../client.js';
+import { createSecretResolver } from '../resolver.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { findField } from '../utils/masking.js';
+import { findPlaceholders, renderTemplate } from '../utils/templates.js';
+import { generateTotp, parseTotpConfig } from '../utils/totp.js';
+
+/**
+ * Register all secret-related tools
+ *
+ * @param server - MCP server instance
+ * @param client - 1Password Connect client instance
+ * @param env - Worker environment (response size limit)
+ */
+export function registerSecretTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
+  // ===========================================================================
+  // Resolve Reference
+  // ===========================================================================
+  server.tool(
+    '1password_resolve_reference',
+    `Resolve one or more 1Password secret references to their values.
+
+References use the form op://vault/item/[section/]field. Vaults and items may be given
+by name or UUID. Add ?attribute=<value|type|id|label|purpose|otp> to read a field
+attribute instead of its value (otp returns the current one-time password).
+
+Args:
+  - reference: A single secret reference
+  - references: Several secret references (items are fetched once per batch)
+
+Returns:
+  Array of results with reference and value, or reference and error when resolution failed.`,
+    {
+      reference: z.string().optional().describe('Secret reference (op://vault/item/field)'),
+      references: z
+        .array(z.string())
+        .max(100)
+        .optional()
+        .describe('Secret references to resolve in one batch'),
+    },
+    async ({ reference, references }, extra) => {
+      try {
+        const all = [...(reference ? [reference] : []), ...(references ?? [])];
+        if (all.length === 0) {
+          throw new ValidationError('Provide reference or references');
+        }
+
+        const resolver = createSecretResolver(client, { signal: extra.signal });
+        const results = await resolver.resolveMany(all);
+        return formatResponse(
+          {
+            resolved: results.filter((r) => r.error === undefined).length,
+            failed: results.filter((r) => r.error !== undefined).length,
+            results,
+          },
+          'json',
+          'references',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Inject Template
+  // ===========================================================================
+  server.tool(
+    '1password_inject_template',
+    `Render a text template containing {{ op://vault/item/[section/]field }} placeholders.
+
+Each placeholder is replaced by the referenced secret, escaped for the template format.
+Placeholders wrapped directly in quotes are escaped for that quoting style; bare placeholders
+are quoted when needed (dotenv) or always (YAML, JSON). Items are fetched once per call,
+no matter how many placeholders reference them.
+
+Args:
+  - template: Template text
+  - format: Template format ('dotenv', 'yaml', 'json', 'properties', or 'text' for no escaping)
+  - strict: If true (default), fail without output when any placeholder cannot be resolved
+
+Returns:
+  The rendered output, plus an unresolved list with reference, line, and error.
+  In non-strict mode unresolved placeholders are left in place.`,
+    {
+      template: z.string().describe('Template text with {{ op://... }} placeholders'),
+      format: z
+        .enum(['dotenv', 'yaml', 'json', 'properties', 'text'])
+        .default('text')
+        .describe('Template format used for escaping'),
+      strict: z
+        .boolean()
+        .default(true)
+        .describe('Fail without output when any placeholder is unresolved'),
+    },
+    async ({ template, format, strict }, extra) => {
+      try {
+        const references = [...new Set(findPlaceholders(template).map((p) => p.reference))];
+        const resolver = createSecretResolver(client, { signal: extra.signal });
+        const results = await resolver.resolveMany(references);
+
+        const values = new Map<string, string | Error>();
+        for (const result of results) {
+          values.set(
+            result.reference,
+            result.error !== undefined ? new Error(result.error) : (result.value ?? '')
+          );
+        }
+
+        const { output, unresolved } = renderTemplate(template, format, values);
+        if (strict && unresolved.length > 0) {
+          throw new ValidationError(
+            `${unresolved.length} placeholder(s) could not be resolved`,
+            Object.fromEntries(unresolved.map((u) => [`line ${u.line}: ${u.reference}`, [u.error]]))
+          );
+        }
+
+        return formatResponse(
+          {
+            placeholders: references.length,
+            unresolved,
+            output,
+          },
+          'json',
+          'template',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get TOTP
+  // ===========================================================================
+  server.tool(
+    '1password_get_totp',
+    `Compute the current one-time password (TOTP) for an item's OTP field.
+
+The OTP secret itself is never returned. Supports otpauth:// URIs (SHA1, SHA256, SHA512,
+custom digits and period) and bare base32 secrets.
+
+Args:
+  - vaultId: The vault UUID or exact name
+  - itemId: The item UUID or exact title
+  - field: Optional OTP field ID or label (required when the item has several OTP fields)
+
+Returns:
+  The current code, seconds remaining, period, digits, algorithm, and the field id and label.`,
+    {
+      vaultId: z.string().describe('Vault UUID or name'),
+      itemId: z.string().describe('Item UUID or title'),
+      field: z.string().optional().describe('OTP field ID or label'),
+    },
+    async ({ vaultId, itemId, field }, extra) => {
+      try {
+        const item = await client.getItem(vaultId, itemId, { signal: extra.signal });
+
+        let otpField = field !== undefined ? findField(item, field) : undefined;
+        if (!otpField) {
+          const candidates = (item.fields ?? []).filter((f) => f.type === 'OTP');
+          if (candidates.length > 1) {
+            throw new ValidationError(
+              `Item has ${candidates.length} OTP fields; specify one with the field parameter`,
+              { candidates: candidates.map((f) => f.label || f.id) }
+            );
+          }
+          otpField = candidates[0];
+        }
+        if (otpField?.type !== 'OTP' || !otpField.value) {
+          throw new NotFoundError('OTP field', field ?? itemId);
+        }
+
+        const totp = await generateTotp(parseTotpConfig(otpField.value));
+        return formatResponse(
+          { field: { id: otpField.id, label: otpField.label }, ...totp },
+          'json',
+          'totp',
+          characterLimit
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -7,15 +7,22 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { OnePasswordClient } from '../client.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import { compileVaultFilter } from '../utils/filters.js';
 import { formatError, formatResponse } from '../utils/formatters.js';
+import { paginate, resolvePageSize } from '../utils/pagination.js';
+import { vaultFilterSchema } from './schemas.js';
 
 /**
  * Register all vault-related tools
  *
  * @param server - MCP server instance
  * @param client - 1Password Connect client instance
+ * @param env - Worker environment (page size and response size limits)
  */
-export function registerVaultTools(server: McpServer, client: OnePasswordClient): void {
+export function registerVaultTools(server: McpServer, client: OnePasswordClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // List Vaults
   // ===========================================================================
@@ -23,23 +30,42 @@ export function registerVaultTools(server: McpServer, client: OnePasswordClient)
     '1password_list_vaults',
     `List all vaults accessible to the service account.
 
-Returns a list of vaults with their IDs, names, and descriptions.
+Returns a page of vaults with their IDs, names, and descriptions, sorted by ID.
 
 Args:
-  - filter: Optional SCIM-style filter by name (e.g., 'name eq "My Vault"')
+  - filter: Optional structured filter, e.g. { name: { sw: "Team" } } (eq, co or sw).
+    A raw filter string (e.g. 'name eq "My Vault"') is also accepted and validated.
+  - limit: Page size (defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE)
+  - cursor: Cursor from a previous page's nextCursor
   - format: Response format ('json' or 'markdown')
 
 Returns:
-  JSON format: Array of Vault objects with id, name, description, items count
-  Markdown format: Formatted table of vaults`,
+  JSON format: { items: Vault[], count, total, hasMore, nextOffset, nextCursor, page, totalPages }
+  Markdown format: Formatted table of vaults with a page X of Y hint`,
     {
-      filter: z.string().optional().describe('SCIM-style filter by name'),
+      filter: z
+        .union([vaultFilterSchema, z.string()])
+        .optional()
+        .describe('Structured filter or raw filter string'),
+      limit: z.number().int().min(1).optional().describe('Page size'),
+      cursor: z.string().optional().describe('Cursor from a previous page'),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ filter, format }) => {
+    async ({ filter, limit, cursor, format }, extra) => {
       try {
-        const vaults = await client.listVaults(filter);
-        return formatResponse(vaults, format, 'vaults');
+        const compiled = compileVaultFilter(filter);
+        const vaults = (
+          await client.listVaults(compiled.connectFilter, { signal: extra.signal })
+        ).filter(compiled.matches);
+        // The set of vault IDs versions the listing: cursors expire when vaults are added or removed
+        const page = paginate(vaults, resolvePageSize(env, limit), cursor, {
+          scope: `vaults:${JSON.stringify(filter ?? '')}`,
+          version: vaults
+            .map((v) => v.id)
+            .sort()
+            .join(','),
+        });
+        return formatResponse(page, format, 'vaults', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -54,19 +80,19 @@ Returns:
     `Get detailed information about a specific vault.
 
 Args:
-  - vaultId: The vault UUID
+  - vaultId: The vault UUID or exact name
   - format: Response format ('json' or 'markdown')
 
 Returns:
   Vault details including id, name, description, item count, type, and timestamps.`,
     {
-      vaultId: z.string().describe('Vault UUID'),
+      vaultId: z.string().describe('Vault UUID or name'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ vaultId, format }) => {
+    async ({ vaultId, format }, extra) => {
       try {
-        const vault = await client.getVault(vaultId);
-        return formatResponse(vault, format, 'vault');
+        const vault = await client.getVault(vaultId, { signal: extra.signal });
+        return formatResponse(vault, format, 'vault', characterLimit);
       } catch (error) {
         return formatError(error);
       }
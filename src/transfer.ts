@@ -0,0 +1,163 @@
+/**
+ * Item Transfer
+ *
+ * Copying items between vaults. Connect has no copy or move endpoint, so the
+ * source item is rebuilt as an ItemCreateInput for the target vault, created,
+ * and re-read to verify that its content arrived intact.
+ *
+ * Connect cannot upload files, so attachments are never carried over. They are
+ * reported instead, so a move can keep them on the archived source.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type { Item, ItemCreateInput, ItemFile } from './types/entities.js';
+import { diffItems } from './utils/diff.js';
+import { ValidationError } from './utils/errors.js';
+import { newId } from './utils/item-edits.js';
+
+/** Why attached files are left behind */
+const FILE_UPLOAD_UNSUPPORTED = 'Connect does not support uploading files';
+
+/**
+ * An attached file that will not be on the copy
+ */
+export interface UntransferredFile extends Pick<ItemFile, 'id' | 'name' | 'size'> {
+  reason: string;
+}
+
+/**
+ * Everything needed to copy one item
+ */
+export interface TransferPlan {
+  source: Item;
+  /** The item to create in the target vault */
+  input: ItemCreateInput;
+  /** Attached files that cannot be carried over */
+  files: UntransferredFile[];
+}
+
+/**
+ * Prepare a copy of an item in another vault
+ *
+ * @param title - Title for the copy (defaults to the source title)
+ */
+export async function planTransfer(
+  client: OnePasswordClient,
+  source: Item,
+  targetVaultId: string,
+  title?: string,
+  options?: RequestOptions
+): Promise<TransferPlan> {
+  const files = await client.listFiles(source.vault.id, source.id, false, options);
+  return {
+    source,
+    input: toCreateInput(source, targetVaultId, title),
+    files: files.map(({ id, name, size }) => ({ id, name, size, reason: FILE_UPLOAD_UNSUPPORTED })),
+  };
+}
+
+/**
+ * Create the copy and verify it against the plan. A copy that does not match
+ * is left in place and reported with a ValidationError naming its ID.
+ */
+export async function transferItem(
+  client: OnePasswordClient,
+  plan: TransferPlan,
+  options?: RequestOptions
+): Promise<Item> {
+  const created = await client.createItem(plan.input.vault.id, plan.input, options);
+  const copy = await client.getItem(created.vault.id, created.id, { ...options, noCache: true });
+
+  const problems = verifyCopy(plan.input, copy);
+  if (problems.length > 0) {
+    throw new ValidationError(
+      `The copy '${copy.title}' (${copy.id}) does not match the source item: ${problems.join('; ')}`,
+      { problems, copyId: [copy.id] }
+    );
+  }
+  return copy;
+}
+
+/**
+ * Rebuild an item as input for another vault.
+ *
+ * Server-assigned data (item ID, version, state, timestamps, OTP codes,
+ * entropy) is dropped and sections get fresh IDs. Field IDs are kept: they
+ * are only unique within an item, and category templates rely on them.
+ * FILE fields are dropped since their content cannot be uploaded.
+ */
+export function toCreateInput(source: Item, vaultId: string, title?: string): ItemCreateInput {
+  const sectionIds = new Map<string, string>();
+  const sections = source.sections?.map((section) => {
+    const id = newId();
+    sectionIds.set(section.id, id);
+    return { id, label: section.label };
+  });
+
+  const fields = source.fields
+    ?.filter((field) => field.type !== 'FILE')
+    .map(({ id, type, purpose, label, value, reference, section }) => {
+      const sectionId = section && sectionIds.get(section.id);
+      return {
+        id,
+        type,
+        purpose,
+        label,
+        value,
+        reference,
+        ...(sectionId && { section: { id: sectionId } }),
+      };
+    });
+
+  return {
+    title: title ?? source.title,
+    category: source.category,
+    vault: { id: vaultId },
+    urls: source.urls?.map(({ label, primary, href }) => ({ label, primary, href })),
+    favorite: source.favorite,
+    tags: source.tags ? [...source.tags] : undefined,
+    sections,
+    fields,
+  };
+}
+
+/**
+ * List what is missing or different on the copy. Additions are tolerated,
+ * since Connect may add empty template fields, and so are field type and
+ * purpose defaults.
+ */
+function verifyCopy(expected: ItemCreateInput, copy: Item): string[] {
+  const diff = diffItems(
+    { ...expected, favorite: expected.favorite ?? false },
+    { ...copy, favorite: copy.favorite ?? false }
+  );
+  const problems: string[] = diff.properties.map((change) => `${change.property} differs`);
+
+  for (const field of diff.fields) {
+    const name = `field '${field.label ?? field.id}'`;
+    if (field.kind === 'removed') {
+      problems.push(`${name} is missing`);
+    } else if (field.kind === 'changed') {
+      const changed = field.changes
+        ?.map((change) => change.property)
+        .filter((property) => ['label', 'value', 'section'].includes(property));
+      if (changed && changed.length > 0) {
+        problems.push(`${name} has a different ${changed.join(' and ')}`);
+      }
+    }
+  }
+  for (const section of diff.sections) {
+    if (section.kind === 'removed') {
+      problems.push(`section '${section.label ?? section.id}' is missing`);
+    }
+  }
+  for (const url of diff.urls) {
+    if (url.kind === 'removed') {
+      problems.push(`URL '${url.href}' is missing`);
+    }
+  }
+  for (const tag of diff.tags.removed) {
+    problems.push(`tag '${tag}' is missing`);
+  }
+  return problems;
+}
@@ -94,6 +94,8 @@ export interface ItemField {
   entropy?: number;
   /** Reference to another item/field */
   reference?: string;
+  /** Current one-time password (OTP fields only) */
+  totp?: string;
   /** Section ID this field belongs to */
   section?: { id: string };
 }
@@ -300,6 +302,12 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
   /** Next offset for pagination */
   nextOffset?: number;
+  /** Opaque cursor for the next page */
+  nextCursor?: string;
+  /** Current page number (1-based) */
+  page?: number;
+  /** Total number of pages */
+  totalPages?: number;
 }
 
 // =============================================================================
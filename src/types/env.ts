@@ -68,12 +68,28 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Cache backend for vaults and items: memory (default), kv, cache-api or none */
+  CACHE_BACKEND?: string;
+
+  /** Lifetime of confirmation tokens for destructive tools, in seconds (default 300) */
+  CONFIRMATION_TTL_SECONDS?: string;
+
+  // ===========================================================================
+  // Secrets (optional)
+  // ===========================================================================
+
+  /** Extra key material for confirmation tokens (set with wrangler secret put) */
+  CONFIRMATION_SECRET?: string;
+
   // ===========================================================================
   // Bindings (optional)
   // ===========================================================================
 
   /** Cloudflare AI binding (optional) */
   AI?: Ai;
+
+  /** KV namespace used when CACHE_BACKEND is "kv" (optional) */
+  CACHE_KV?: KVNamespace;
 }
 
 // ===========================================================================
@@ -0,0 +1,140 @@
+/**
+ * Concurrency Utilities
+ *
+ * Bounded-concurrency helpers for fanning out Connect requests without
+ * flooding the server.
+ */
+
+import { RateLimitError } from './errors.js';
+
+/** Default number of requests in flight when fanning out */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Map values through an async function with at most `concurrency` calls in
+ * flight, settling every call.
+ *
+ * Results keep the order of the input values; a failed call yields a rejected
+ * result instead of aborting the others.
+ */
+export async function mapSettled<T, R>(
+  values: readonly T[],
+  concurrency: number,
+  fn: (value: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results = new Array<PromiseSettledResult<R>>(values.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < values.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(values[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(1, concurrency), values.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Options for a batch of independent writes
+ */
+export interface BatchOptions {
+  /** Maximum calls in flight */
+  concurrency: number;
+  /** Skip the values not yet started once a call fails */
+  stopOnError?: boolean;
+  /** Times a call rejected with a rate limit is retried (default 3) */
+  rateLimitRetries?: number;
+  /** Cancels the waits between calls; values not yet started are skipped */
+  signal?: AbortSignal;
+}
+
+export type BatchOutcome<R> =
+  | { status: 'succeeded'; value: R }
+  | { status: 'failed'; reason: unknown }
+  | { status: 'skipped' };
+
+/** Pause applied after a rate limit without Retry-After */
+const MIN_RATE_LIMIT_PAUSE_MS = 1000;
+
+/**
+ * Run a batch with at most `concurrency` calls in flight, reporting each
+ * value's outcome in input order.
+ *
+ * A RateLimitError pauses the whole batch for the Retry-After delay and the
+ * rejected call is retried, since a 429 means Connect did not apply it.
+ */
+export async function mapBatch<T, R>(
+  values: readonly T[],
+  options: BatchOptions,
+  fn: (value: T, index: number) => Promise<R>
+): Promise<BatchOutcome<R>[]> {
+  const outcomes = new Array<BatchOutcome<R>>(values.length);
+  const rateLimitRetries = options.rateLimitRetries ?? 3;
+  let next = 0;
+  let stopped = false;
+  let pausedUntil = 0;
+
+  const attempt = async (value: T, index: number): Promise<R> => {
+    for (let retries = 0; ; retries++) {
+      await sleep(pausedUntil - Date.now(), options.signal);
+      try {
+        return await fn(value, index);
+      } catch (error) {
+        if (!(error instanceof RateLimitError) || retries >= rateLimitRetries) {
+          throw error;
+        }
+        const pause = Math.max(error.retryAfterSeconds * 1000, MIN_RATE_LIMIT_PAUSE_MS);
+        pausedUntil = Math.max(pausedUntil, Date.now() + pause);
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < values.length) {
+      const index = next++;
+      if (stopped || options.signal?.aborted) {
+        outcomes[index] = { status: 'skipped' };
+        continue;
+      }
+      try {
+        outcomes[index] = { status: 'succeeded', value: await attempt(values[index], index) };
+      } catch (reason) {
+        outcomes[index] = { status: 'failed', reason };
+        if (options.stopOnError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(1, options.concurrency), values.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
+
+/**
+ * Wait for a delay, resolving early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 parsing and formatting: comma-separated, double-quoted fields that
+ * may contain commas, quotes ("") and line breaks. Parsing accepts LF or CRLF
+ * record separators; formatting writes CRLF.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Invalid CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Format one CSV record, quoting fields that need it
+ */
+export function formatCsvRow(fields: string[]): string {
+  const quoted = fields.map((field) =>
+    /[",\r\n]/.test(field) || field.trim() !== field ? `"${field.replace(/"/g, '""')}"` : field
+  );
+  return `${quoted.join(',')}\r\n`;
+}
@@ -0,0 +1,398 @@
+/**
+ * Item Diff Utilities
+ *
+ * Semantic comparison of two items, or of an item and a proposed full
+ * replacement (the input of update_item). Fields are matched by id, then
+ * purpose, then label rather than by array position.
+ *
+ * Secret values never appear in a diff: sensitive fields only report whether
+ * their value changed.
+ */
+
+import type { Item, ItemField, ItemSection, ItemUrl } from '../types/entities.js';
+import { isSensitiveField, MASKED_VALUE } from './masking.js';
+
+// =============================================================================
+// Diff Types
+// =============================================================================
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface PropertyChange {
+  property: string;
+  before?: unknown;
+  after?: unknown;
+  /** The property holds a secret; before/after are omitted */
+  secret?: boolean;
+}
+
+export interface FieldDiff {
+  kind: ChangeKind;
+  id: string;
+  label?: string;
+  type?: string;
+  section?: string;
+  /** How the field was matched to its counterpart (changed fields only) */
+  matchedBy?: 'id' | 'purpose' | 'label';
+  /** Value of an added or removed field (masked when sensitive) */
+  value?: string;
+  /** Property changes (changed fields only) */
+  changes?: PropertyChange[];
+}
+
+export interface SectionDiff {
+  kind: ChangeKind;
+  id: string;
+  label?: string;
+  changes?: PropertyChange[];
+}
+
+export interface UrlDiff {
+  kind: ChangeKind;
+  href: string;
+  changes?: PropertyChange[];
+}
+
+export interface SecretStatus {
+  id: string;
+  label?: string;
+  status: 'changed' | 'unchanged' | 'generated';
+}
+
+export interface ItemDiff {
+  /** No differences at all */
+  identical: boolean;
+  /** One-line summary of the changes */
+  summary: string;
+  /** Changes to title, category and favorite */
+  properties: PropertyChange[];
+  fields: FieldDiff[];
+  sections: SectionDiff[];
+  urls: UrlDiff[];
+  tags: { added: string[]; removed: string[] };
+  /** Value status of every sensitive field present on both sides */
+  secrets: SecretStatus[];
+}
+
+/** The parts of an item a diff compares */
+export type ItemSnapshot = Pick<Item, 'title' | 'category'> &
+  Partial<Pick<Item, 'favorite' | 'fields' | 'sections' | 'urls' | 'tags'>>;
+
+/**
+ * A proposed update_item input. It is a full replacement, so omitted
+ * collections count as empty while omitted scalars keep their value.
+ */
+export type ItemProposal = Partial<ItemSnapshot>;
+
+/** Placeholder for values Connect will generate */
+const GENERATED_VALUE = '(generated)';
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Compare an item with another item or with a proposed replacement
+ */
+export function diffItems(before: ItemSnapshot, after: ItemSnapshot | ItemProposal): ItemDiff {
+  const properties: PropertyChange[] = [];
+  for (const property of ['title', 'category', 'favorite'] as const) {
+    const next = after[property];
+    // Scalars left out of a proposal keep their current value
+    if (next !== undefined && next !== before[property]) {
+      properties.push({ property, before: before[property], after: next });
+    }
+  }
+
+  const beforeSections = before.sections ?? [];
+  const afterSections = after.sections ?? [];
+  const { fields, secrets } = diffFields(
+    before.fields ?? [],
+    after.fields ?? [],
+    sectionLabels(beforeSections, afterSections)
+  );
+  const sections = diffSections(beforeSections, afterSections);
+  const urls = diffUrls(before.urls ?? [], after.urls ?? []);
+  const tags = diffTags(before.tags ?? [], after.tags ?? []);
+
+  const diff: ItemDiff = {
+    identical: false,
+    summary: '',
+    properties,
+    fields,
+    sections,
+    urls,
+    tags,
+    secrets,
+  };
+  diff.identical =
+    properties.length === 0 &&
+    fields.length === 0 &&
+    sections.length === 0 &&
+    urls.length === 0 &&
+    tags.added.length === 0 &&
+    tags.removed.length === 0;
+  diff.summary = summarizeDiff(diff);
+  return diff;
+}
+
+/**
+ * One-line, secret-free description of a diff
+ */
+export function summarizeDiff(diff: ItemDiff): string {
+  if (diff.identical) {
+    return 'No changes';
+  }
+
+  const parts: string[] = [];
+  for (const change of diff.properties) {
+    parts.push(`${change.property} changed`);
+  }
+  const counted = (label: string, entries: Array<{ kind: ChangeKind }>) => {
+    const counts = (['added', 'removed', 'changed'] as const)
+      .map((kind) => [kind, entries.filter((e) => e.kind === kind).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([kind, count]) => `${count} ${kind}`);
+    if (counts.length > 0) {
+      parts.push(`${label}: ${counts.join(', ')}`);
+    }
+  };
+  counted('fields', diff.fields);
+  counted('sections', diff.sections);
+  counted('urls', diff.urls);
+  if (diff.tags.added.length > 0 || diff.tags.removed.length > 0) {
+    parts.push(`tags: +${diff.tags.added.length} -${diff.tags.removed.length}`);
+  }
+  return parts.join('; ');
+}
+
+// =============================================================================
+// Fields
+// =============================================================================
+
+function diffFields(
+  before: ItemField[],
+  after: ItemField[],
+  sections: Map<string, string>
+): { fields: FieldDiff[]; secrets: SecretStatus[] } {
+  const pairs = matchFields(before, after);
+  const matchedBefore = new Set(pairs.map((p) => p.before));
+  const matchedAfter = new Set(pairs.map((p) => p.after));
+
+  const fields: FieldDiff[] = [];
+  const secrets: SecretStatus[] = [];
+
+  for (const { before: old, after: next, matchedBy } of pairs) {
+    const changes: PropertyChange[] = [];
+    for (const property of ['label', 'type', 'purpose'] as const) {
+      if ((next[property] ?? undefined) !== (old[property] ?? undefined)) {
+        changes.push({ property, before: old[property], after: next[property] });
+      }
+    }
+    if (next.section?.id !== old.section?.id) {
+      changes.push({
+        property: 'section',
+        before: sectionName(old, sections),
+        after: sectionName(next, sections),
+      });
+    }
+
+    const sensitive = isSensitiveField(old) || isSensitiveField(next);
+    const status = valueStatus(old, next);
+    if (sensitive) {
+      secrets.push({ id: next.id || old.id, label: next.label ?? old.label, status });
+      if (status === 'generated') {
+        changes.push({ property: 'value', secret: true, after: GENERATED_VALUE });
+      } else if (status === 'changed') {
+        changes.push({ property: 'value', secret: true });
+      }
+    } else if (status !== 'unchanged') {
+      changes.push({
+        property: 'value',
+        before: old.value,
+        after: status === 'generated' ? GENERATED_VALUE : next.value,
+      });
+    }
+
+    if (changes.length > 0) {
+      fields.push({
+        kind: 'changed',
+        id: old.id,
+        label: next.label ?? old.label,
+        type: next.type ?? old.type,
+        section: sectionName(next, sections),
+        matchedBy,
+        changes,
+      });
+    }
+  }
+
+  for (const field of before) {
+    if (!matchedBefore.has(field)) {
+      fields.push(describeField('removed', field, sections));
+    }
+  }
+  for (const field of after) {
+    if (!matchedAfter.has(field)) {
+      fields.push(describeField('added', field, sections));
+    }
+  }
+
+  return { fields, secrets };
+}
+
+/**
+ * Pair fields by id, then by a unique purpose, then by a unique label (case-insensitive)
+ */
+function matchFields(
+  before: ItemField[],
+  after: ItemField[]
+): Array<{ before: ItemField; after: ItemField; matchedBy: 'id' | 'purpose' | 'label' }> {
+  const pairs: Array<{
+    before: ItemField;
+    after: ItemField;
+    matchedBy: 'id' | 'purpose' | 'label';
+  }> = [];
+  const remainingBefore = new Set(before);
+  const remainingAfter = new Set(after);
+
+  const pass = (
+    matchedBy: 'id' | 'purpose' | 'label',
+    key: (f: ItemField) => string | undefined
+  ) => {
+    for (const next of [...remainingAfter]) {
+      const value = key(next);
+      if (!value) continue;
+      const candidates = [...remainingBefore].filter((old) => key(old) === value);
+      const sameKeyAfter = [...remainingAfter].filter((f) => key(f) === value);
+      // Only unambiguous pairs are matched; the rest fall through to the next pass
+      if (candidates.length === 1 && (matchedBy === 'id' || sameKeyAfter.length === 1)) {
+        pairs.push({ before: candidates[0], after: next, matchedBy });
+        remainingBefore.delete(candidates[0]);
+        remainingAfter.delete(next);
+      }
+    }
+  };
+
+  pass('id', (f) => f.id || undefined);
+  pass('purpose', (f) => f.purpose);
+  pass('label', (f) => f.label?.toLowerCase());
+  return pairs;
+}
+
+function valueStatus(before: ItemField, after: ItemField): SecretStatus['status'] {
+  if (after.generate) {
+    return 'generated';
+  }
+  return (before.value ?? '') === (after.value ?? '') ? 'unchanged' : 'changed';
+}
+
+function describeField(
+  kind: ChangeKind,
+  field: ItemField,
+  sections: Map<string, string>
+): FieldDiff {
+  let value: string | undefined;
+  if (field.generate) {
+    value = GENERATED_VALUE;
+  } else if (field.value) {
+    value = isSensitiveField(field) ? MASKED_VALUE : field.value;
+  }
+  return {
+    kind,
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    section: sectionName(field, sections),
+    value,
+  };
+}
+
+function sectionLabels(before: ItemSection[], after: ItemSection[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const section of [...before, ...after]) {
+    labels.set(section.id, section.label || section.id);
+  }
+  return labels;
+}
+
+function sectionName(field: ItemField, sections: Map<string, string>): string | undefined {
+  return field.section ? (sections.get(field.section.id) ?? field.section.id) : undefined;
+}
+
+// =============================================================================
+// Sections, URLs & Tags
+// =============================================================================
+
+function diffSections(before: ItemSection[], after: ItemSection[]): SectionDiff[] {
+  const diffs: SectionDiff[] = [];
+  const remaining = new Set(before);
+
+  for (const next of after) {
+    const old =
+      before.find((s) => remaining.has(s) && s.id === next.id) ??
+      before.find(
+        (s) => remaining.has(s) && s.label && s.label.toLowerCase() === next.label?.toLowerCase()
+      );
+    if (!old) {
+      diffs.push({ kind: 'added', id: next.id, label: next.label });
+      continue;
+    }
+    remaining.delete(old);
+    if ((old.label ?? '') !== (next.label ?? '')) {
+      diffs.push({
+        kind: 'changed',
+        id: old.id,
+        label: next.label,
+        changes: [{ property: 'label', before: old.label, after: next.label }],
+      });
+    }
+  }
+
+  for (const old of remaining) {
+    diffs.push({ kind: 'removed', id: old.id, label: old.label });
+  }
+  return diffs;
+}
+
+function diffUrls(before: ItemUrl[], after: ItemUrl[]): UrlDiff[] {
+  const diffs: UrlDiff[] = [];
+  const remaining = new Set(before);
+
+  for (const next of after) {
+    const old = before.find((u) => remaining.has(u) && u.href === next.href);
+    if (!old) {
+      diffs.push({ kind: 'added', href: next.href });
+      continue;
+    }
+    remaining.delete(old);
+    const changes: PropertyChange[] = [];
+    if ((old.label ?? '') !== (next.label ?? '')) {
+      changes.push({ property: 'label', before: old.label, after: next.label });
+    }
+    if (Boolean(old.primary) !== Boolean(next.primary)) {
+      changes.push({
+        property: 'primary',
+        before: Boolean(old.primary),
+        after: Boolean(next.primary),
+      });
+    }
+    if (changes.length > 0) {
+      diffs.push({ kind: 'changed', href: next.href, changes });
+    }
+  }
+
+  for (const old of remaining) {
+    diffs.push({ kind: 'removed', href: old.href });
+  }
+  return diffs;
+}
+
+function diffTags(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const old = new Set(before);
+  const next = new Set(after);
+  return {
+    added: [...next].filter((t) => !old.has(t)),
+    removed: [...old].filter((t) => !next.has(t)),
+  };
+}
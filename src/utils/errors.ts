@@ -11,6 +11,8 @@ export class OnePasswordApiError extends Error {
   public statusCode?: number;
   public code: string;
   public retryable: boolean;
+  /** Number of retries made before the error was surfaced */
+  public retries?: number;
 
   constructor(message: string, statusCode?: number, code?: string, retryable = false) {
     super(message);
@@ -34,6 +36,19 @@ export class RateLimitError extends OnePasswordApiError {
   }
 }
 
+/**
+ * Timeout error (the Connect server did not respond in time)
+ */
+export class TimeoutError extends OnePasswordApiError {
+  public timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, undefined, 'TIMEOUT', true);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 /**
  * Authentication error
  */
@@ -77,6 +92,64 @@ export class ValidationError extends OnePasswordApiError {
   }
 }
 
+/**
+ * Ambiguous name error (a name matches more than one entity)
+ */
+export class AmbiguousNameError extends OnePasswordApiError {
+  public candidates: Array<{ id: string; name: string }>;
+
+  constructor(entityType: string, name: string, candidates: Array<{ id: string; name: string }>) {
+    super(
+      `${entityType} name '${name}' is ambiguous: matches ${candidates.length} ${entityType.toLowerCase()}s. Use one of the IDs instead.`,
+      409,
+      'AMBIGUOUS_NAME',
+      false
+    );
+    this.name = 'AmbiguousNameError';
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Version conflict error (the item changed since the caller last read it)
+ */
+export class ConflictError extends OnePasswordApiError {
+  public expectedVersion: number;
+  public currentVersion?: number;
+  /** Summary of what the caller's change would do to the current item */
+  public diff: string;
+
+  constructor(
+    message: string,
+    expectedVersion: number,
+    currentVersion: number | undefined,
+    diff: string
+  ) {
+    super(message, 409, 'VERSION_CONFLICT', false);
+    this.name = 'ConflictError';
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+    this.diff = diff;
+  }
+}
+
+/**
+ * Response too large error (a tool response would exceed CHARACTER_LIMIT)
+ */
+export class ResponseTooLargeError extends OnePasswordApiError {
+  public size: number;
+  public limit: number;
+  public hint: string;
+
+  constructor(message: string, size: number, limit: number, hint: string) {
+    super(message, 413, 'RESPONSE_TOO_LARGE', false);
+    this.name = 'ResponseTooLargeError';
+    this.size = size;
+    this.limit = limit;
+    this.hint = hint;
+  }
+}
+
 /**
  * Check if an error is retryable
  */
@@ -106,8 +179,21 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       code: error.code,
       statusCode: error.statusCode,
       retryable: error.retryable,
+      ...(error.retries !== undefined && { retries: error.retries }),
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
+      ...(error instanceof TimeoutError && { timeoutMs: error.timeoutMs }),
       ...(error instanceof ValidationError && { details: error.details }),
+      ...(error instanceof AmbiguousNameError && { candidates: error.candidates }),
+      ...(error instanceof ConflictError && {
+        expectedVersion: error.expectedVersion,
+        currentVersion: error.currentVersion,
+        diff: error.diff,
+      }),
+      ...(error instanceof ResponseTooLargeError && {
+        size: error.size,
+        limit: error.limit,
+        hint: error.hint,
+      }),
     };
   }
   if (error instanceof Error) {
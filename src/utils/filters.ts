@@ -0,0 +1,266 @@
+/**
+ * Filter Utilities
+ *
+ * Builds Connect SCIM-style filter strings from structured filters, and
+ * validates raw filter strings before they are sent to Connect.
+ *
+ * Connect only filters vaults by name and items by title, so the remaining
+ * parts of a structured filter (tag, category, favorite, updatedAfter) are
+ * applied to the fetched results.
+ */
+
+import type { Item, ItemCategory, Vault } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Structured Filters
+// =============================================================================
+
+export type StringOperator = 'eq' | 'co' | 'sw';
+
+/** Match on a string attribute: equals, contains or starts with (exactly one) */
+export type StringMatch = Partial<Record<StringOperator, string>>;
+
+export interface ItemFilter {
+  /** Match the item title */
+  title?: StringMatch;
+  /** Only items carrying this tag */
+  tag?: string;
+  /** Only items of this category */
+  category?: ItemCategory;
+  /** Only favorite (true) or non-favorite (false) items */
+  favorite?: boolean;
+  /** Only items updated after this ISO 8601 timestamp */
+  updatedAfter?: string;
+}
+
+export interface VaultFilter {
+  /** Match the vault name */
+  name?: StringMatch;
+}
+
+/**
+ * A filter split into the part Connect evaluates and the part applied locally
+ */
+export interface CompiledFilter<T> {
+  /** Filter string sent to Connect (undefined when Connect should list everything) */
+  connectFilter?: string;
+  /** Predicate for the conditions Connect cannot evaluate */
+  matches: (entity: T) => boolean;
+}
+
+/** Attributes accepted in raw filter strings, per listing */
+export const ITEM_FILTER_ATTRIBUTES = ['title'] as const;
+export const VAULT_FILTER_ATTRIBUTES = ['name'] as const;
+
+/**
+ * Compile an item filter (structured or raw string)
+ */
+export function compileItemFilter(filter?: string | ItemFilter): CompiledFilter<Item> {
+  if (filter === undefined || typeof filter === 'string') {
+    return compileRaw(filter, ITEM_FILTER_ATTRIBUTES);
+  }
+
+  const updatedAfter =
+    filter.updatedAfter === undefined ? undefined : Date.parse(filter.updatedAfter);
+  if (updatedAfter !== undefined && Number.isNaN(updatedAfter)) {
+    throw new ValidationError('updatedAfter must be an ISO 8601 timestamp');
+  }
+  const tag = filter.tag?.toLowerCase();
+
+  return {
+    connectFilter: filter.title ? compileStringMatch('title', filter.title) : undefined,
+    matches: (item) => {
+      if (tag !== undefined && !item.tags?.some((t) => t.toLowerCase() === tag)) return false;
+      if (filter.category !== undefined && item.category !== filter.category) return false;
+      if (filter.favorite !== undefined && Boolean(item.favorite) !== filter.favorite) return false;
+      if (updatedAfter !== undefined) {
+        const updated = item.updatedAt ? Date.parse(item.updatedAt) : Number.NaN;
+        if (Number.isNaN(updated) || updated <= updatedAfter) return false;
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Compile a vault filter (structured or raw string)
+ */
+export function compileVaultFilter(filter?: string | VaultFilter): CompiledFilter<Vault> {
+  if (filter === undefined || typeof filter === 'string') {
+    return compileRaw(filter, VAULT_FILTER_ATTRIBUTES);
+  }
+  return {
+    connectFilter: filter.name ? compileStringMatch('name', filter.name) : undefined,
+    matches: () => true,
+  };
+}
+
+/**
+ * Escape a value for use inside a double-quoted Connect filter
+ */
+export function escapeFilterValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// =============================================================================
+// Raw Filter Validation
+// =============================================================================
+
+const OPERATORS = ['eq', 'co', 'sw'];
+
+/**
+ * Validate a raw SCIM-style filter string.
+ *
+ * Accepts `<attribute> <eq|co|sw> "<value>"` terms joined by `and` / `or`,
+ * optionally grouped with parentheses. Throws a ValidationError pointing at
+ * the offending position otherwise.
+ */
+export function validateRawFilter(filter: string, attributes: readonly string[]): void {
+  const parser = new FilterParser(filter, attributes);
+  parser.parse();
+}
+
+class FilterParser {
+  private input: string;
+  private attributes: readonly string[];
+  private position = 0;
+
+  constructor(input: string, attributes: readonly string[]) {
+    this.input = input;
+    this.attributes = attributes;
+  }
+
+  parse(): void {
+    this.skipSpace();
+    if (this.position === this.input.length) {
+      this.fail('Filter is empty');
+    }
+    this.expression();
+    this.skipSpace();
+    if (this.position < this.input.length) {
+      this.fail(`Unexpected '${this.input.slice(this.position)}'; join terms with 'and' or 'or'`);
+    }
+  }
+
+  private expression(): void {
+    this.term();
+    for (;;) {
+      this.skipSpace();
+      const keyword = this.peekWord().toLowerCase();
+      if (keyword !== 'and' && keyword !== 'or') {
+        return;
+      }
+      this.position += keyword.length;
+      this.term();
+    }
+  }
+
+  private term(): void {
+    this.skipSpace();
+    if (this.input[this.position] === '(') {
+      this.position++;
+      this.expression();
+      this.skipSpace();
+      if (this.input[this.position] !== ')') {
+        this.fail("Missing closing ')'");
+      }
+      this.position++;
+      return;
+    }
+
+    const attribute = this.readWord();
+    if (!attribute) {
+      this.fail(`Expected an attribute (${this.attributes.join(', ')})`);
+    }
+    if (!this.attributes.includes(attribute)) {
+      this.fail(
+        `Unsupported attribute '${attribute}'; filters support ${this.attributes.join(', ')} only`,
+        attribute.length
+      );
+    }
+
+    this.skipSpace();
+    const operator = this.readWord();
+    if (!OPERATORS.includes(operator.toLowerCase())) {
+      this.fail(
+        `Expected an operator (${OPERATORS.join(', ')}) after '${attribute}'${operator ? `, got '${operator}'` : ''}`,
+        operator.length
+      );
+    }
+
+    this.skipSpace();
+    this.quotedValue(`${attribute} ${operator}`);
+  }
+
+  private quotedValue(context: string): void {
+    if (this.input[this.position] !== '"') {
+      this.fail(
+        `Expected a double-quoted value after '${context}', e.g. ${context} "My Login" (escape \\" and \\\\ inside)`
+      );
+    }
+    const start = this.position;
+    this.position++;
+    while (this.position < this.input.length) {
+      const char = this.input[this.position];
+      if (char === '\\') {
+        this.position += 2;
+        continue;
+      }
+      if (char === '"') {
+        this.position++;
+        return;
+      }
+      this.position++;
+    }
+    this.position = start;
+    this.fail('Unterminated quoted value');
+  }
+
+  private readWord(): string {
+    const word = this.peekWord();
+    this.position += word.length;
+    return word;
+  }
+
+  private peekWord(): string {
+    return /^[A-Za-z]+/.exec(this.input.slice(this.position))?.[0] ?? '';
+  }
+
+  private skipSpace(): void {
+    while (this.position < this.input.length && /\s/.test(this.input[this.position])) {
+      this.position++;
+    }
+  }
+
+  private fail(message: string, backtrack = 0): never {
+    const at = this.position - backtrack;
+    throw new ValidationError(`Invalid filter: ${message} (at position ${at})`, {
+      filter: [this.input, `${' '.repeat(at)}^`],
+    });
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function compileRaw<T>(
+  filter: string | undefined,
+  attributes: readonly string[]
+): CompiledFilter<T> {
+  if (filter !== undefined && filter.trim() !== '') {
+    validateRawFilter(filter, attributes);
+    return { connectFilter: filter, matches: () => true };
+  }
+  return { matches: () => true };
+}
+
+function compileStringMatch(attribute: string, match: StringMatch): string {
+  const entries = Object.entries(match).filter(([, value]) => value !== undefined);
+  if (entries.length !== 1) {
+    throw new ValidationError(`${attribute} filter needs exactly one of eq, co or sw`);
+  }
+  const [operator, value] = entries[0];
+  return `${attribute} ${operator} "${escapeFilterValue(value as string)}"`;
+}
@@ -4,6 +4,7 @@
  * Helpers for formatting tool responses in JSON or Markdown.
  */
 
+import type { ActivityReport } from '../activity.js';
 import type {
   APIRequest,
   Item,
@@ -13,7 +14,10 @@ import type {
   ServerHealth,
   Vault,
 } from '../types/entities.js';
-import { OnePasswordApiError, formatErrorForLogging } from './errors.js';
+import type { ItemDiff, PropertyChange } from './diff.js';
+import { formatErrorForLogging, OnePasswordApiError, ResponseTooLargeError } from './errors.js';
+import { type MaskedItemField, maskFileContent, maskItem } from './masking.js';
+import type { SearchResult } from './search.js';
 
 /**
  * MCP tool response type
@@ -25,22 +29,173 @@ export interface ToolResponse {
   isError?: boolean;
 }
 
+/** Character limit applied when none is configured (matches getCharacterLimit) */
+export const DEFAULT_CHARACTER_LIMIT = 50000;
+
+/**
+ * Machine-readable block appended to truncated responses
+ */
+export interface TruncationInfo {
+  truncated: true;
+  /** Entries included in the response */
+  returned: number;
+  /** Entries available before truncation */
+  total: number;
+  /** How to retrieve the rest */
+  hint: string;
+  /** Property whose entries were trimmed, when the response is an object */
+  field?: string;
+}
+
 /**
  * Format a successful response
+ *
+ * Secret field values on items and inline file content are masked here, so
+ * both the JSON and Markdown outputs are safe by default.
+ *
+ * Responses longer than characterLimit are truncated at array-entry boundaries
+ * and carry a TruncationInfo block. Object responses have their largest array
+ * property trimmed and carry the block as `truncation`. Oversized responses
+ * without an array to trim are refused with a ResponseTooLargeError.
  */
 export function formatResponse(
   data: unknown,
   format: ResponseFormat,
-  entityType: string
+  entityType: string,
+  characterLimit = DEFAULT_CHARACTER_LIMIT
 ): ToolResponse {
-  if (format === 'markdown') {
-    return {
-      content: [{ type: 'text', text: formatAsMarkdown(data, entityType) }],
-    };
+  const safeData = maskSecrets(data, entityType);
+  const text = renderResponse(safeData, format, entityType);
+  if (text.length <= characterLimit) {
+    return { content: [{ type: 'text', text }] };
   }
-  return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+  return truncateResponse(safeData, format, entityType, characterLimit, text.length);
+}
+
+/**
+ * Render data in the requested format
+ */
+function renderResponse(data: unknown, format: ResponseFormat, entityType: string): string {
+  return format === 'markdown' ? formatAsMarkdown(data, entityType) : JSON.stringify(data, null, 2);
+}
+
+/**
+ * Keep the longest prefix of the response's entries that fits within the limit
+ */
+function truncateResponse(
+  data: unknown,
+  format: ResponseFormat,
+  entityType: string,
+  characterLimit: number,
+  size: number
+): ToolResponse {
+  const paginated = isPaginatedResponse(data);
+  const field = paginated || Array.isArray(data) ? undefined : largestArrayProperty(data);
+  const entries = paginated
+    ? data.items
+    : Array.isArray(data)
+      ? data
+      : field !== undefined
+        ? ((data as Record<string, unknown>)[field] as unknown[])
+        : undefined;
+  const refuse = (): ToolResponse =>
+    formatError(
+      new ResponseTooLargeError(
+        `Response of ${size} characters exceeds the limit of ${characterLimit}`,
+        size,
+        characterLimit,
+        entityType === 'file'
+          ? 'Omit inlineContent and read the file with 1password_get_file_content using offset and length.'
+          : 'Narrow the request so the response is smaller.'
+      )
+    );
+
+  if (!entries || entries.length === 0) {
+    return refuse();
+  }
+
+  const render = (count: number): string => {
+    const info: TruncationInfo = {
+      truncated: true,
+      returned: count,
+      total: entries.length,
+      hint: paginated
+        ? `Only ${count} of ${entries.length} entries on this page fit; request a smaller page with limit: ${Math.max(1, count)}.`
+        : `Only ${count} of ${entries.length} ${field ?? 'entries'} fit; narrow the request (e.g. with a filter) to see the rest.`,
+      ...(field !== undefined && { field }),
+    };
+    const kept = entries.slice(0, count);
+    const trimmed = paginated
+      ? { ...data, items: kept, count }
+      : field !== undefined
+        ? { ...(data as Record<string, unknown>), [field]: kept }
+        : kept;
+
+    if (format === 'markdown') {
+      return `${formatAsMarkdown(trimmed, entityType)}\n\n\`\`\`json\n${JSON.stringify(info, null, 2)}\n\`\`\``;
+    }
+    if (field !== undefined) {
+      return JSON.stringify({ ...trimmed, truncation: info }, null, 2);
+    }
+    return JSON.stringify(paginated ? { ...trimmed, ...info } : { items: kept, ...info }, null, 2);
   };
+
+  // Binary search for the largest entry count that fits
+  let low = 0;
+  let high = entries.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= characterLimit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const text = render(low);
+  return text.length <= characterLimit ? { content: [{ type: 'text', text }] } : refuse();
+}
+
+/**
+ * The array property of an object response that takes the most space
+ */
+function largestArrayProperty(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+
+  let largest: string | undefined;
+  let largestSize = 0;
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value) && value.length > 0) {
+      const size = JSON.stringify(value).length;
+      if (size > largestSize) {
+        largest = key;
+        largestSize = size;
+      }
+    }
+  }
+  return largest;
+}
+
+/**
+ * Mask secret values for entity types that can carry them
+ */
+function maskSecrets(data: unknown, entityType: string): unknown {
+  if (isPaginatedResponse(data)) {
+    return { ...data, items: maskSecrets(data.items, entityType) };
+  }
+
+  switch (entityType) {
+    case 'item':
+      return maskItem(data as Item);
+    case 'items':
+      return (data as Item[]).map(maskItem);
+    case 'files':
+      return (data as ItemFile[]).map(maskFileContent);
+    default:
+      return data;
+  }
 }
 
 /**
@@ -118,7 +273,13 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     lines.push(`**Showing:** ${data.count}`);
   }
 
-  if (data.hasMore) {
+  if (data.page !== undefined && data.totalPages !== undefined) {
+    lines.push(`**Page:** ${data.page} of ${data.totalPages}`);
+  }
+
+  if (data.nextCursor) {
+    lines.push(`**More available:** Yes (cursor: \`${data.nextCursor}\`)`);
+  } else if (data.hasMore) {
     lines.push(`**More available:** Yes (offset: \`${data.nextOffset}\`)`);
   }
   lines.push('');
@@ -285,10 +446,296 @@ function formatHealthAsMarkdown(health: ServerHealth): string {
   return lines.join('\n');
 }
 
+/**
+ * Format a single item as Markdown
+ */
+function formatItemAsMarkdown(item: Item): string {
+  const lines: string[] = [];
+  lines.push(`## ${item.title}`);
+  lines.push('');
+  lines.push(`**ID:** ${item.id}`);
+  lines.push(`**Category:** ${item.category}`);
+  lines.push(`**Vault:** ${item.vault?.name || item.vault?.id || '-'}`);
+  if (item.version !== undefined) {
+    lines.push(`**Version:** ${item.version}`);
+  }
+  if (item.tags && item.tags.length > 0) {
+    lines.push(`**Tags:** ${item.tags.join(', ')}`);
+  }
+  if (item.updatedAt) {
+    lines.push(`**Updated:** ${item.updatedAt}`);
+  }
+
+  if (item.urls && item.urls.length > 0) {
+    lines.push('');
+    lines.push('### URLs');
+    for (const url of item.urls) {
+      lines.push(`- ${url.href}${url.primary ? ' (primary)' : ''}`);
+    }
+  }
+
+  if (item.fields && item.fields.length > 0) {
+    const sectionLabels = new Map((item.sections ?? []).map((s) => [s.id, s.label || s.id]));
+    lines.push('');
+    lines.push('### Fields');
+    lines.push('| ID | Label | Type | Section | Value |');
+    lines.push('|---|---|---|---|---|');
+    for (const field of item.fields as MaskedItemField[]) {
+      const section = field.section ? sectionLabels.get(field.section.id) || field.section.id : '-';
+      lines.push(
+        `| ${field.id} | ${field.label || '-'} | ${field.type || '-'} | ${section} | ${formatFieldValue(field)} |`
+      );
+    }
+  }
+
+  if (item.files && item.files.length > 0) {
+    lines.push('');
+    lines.push('### Files');
+    lines.push(formatFilesTable(item.files));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format an activity report as Markdown
+ */
+function formatActivityReportAsMarkdown(report: ActivityReport): string {
+  const lines: string[] = [];
+  lines.push('## Activity Report');
+  lines.push('');
+  lines.push(`**Window:** ${report.window.since || '-'} to ${report.window.until || '-'}`);
+  lines.push(
+    `**Requests:** ${report.totals.requests} | **Denied:** ${report.totals.denied} | **Actors:** ${report.totals.actors} | **IPs:** ${report.totals.ips}`
+  );
+  const actions = Object.entries(report.totals.byAction)
+    .map(([action, count]) => `${action} ${count}`)
+    .join(', ');
+  if (actions) {
+    lines.push(`**By action:** ${actions}`);
+  }
+  if (report.scan && !report.scan.complete) {
+    lines.push(
+      `**Incomplete:** scanned ${report.scan.scannedEntries} entries in ${report.scan.scannedPages} pages before the page cap`
+    );
+  }
+
+  if (report.bursts.length > 0) {
+    lines.push('');
+    lines.push('### Read Bursts');
+    lines.push('| Actor | Start | End | Reads | Baseline |');
+    lines.push('|---|---|---|---|---|');
+    for (const burst of report.bursts) {
+      lines.push(
+        `| ${burst.actorId} | ${burst.start} | ${burst.end} | ${burst.reads} | ${burst.baseline} |`
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push('### Actors');
+  lines.push('| Actor | Requests | Reads | Writes | Denied | IPs | Last Seen |');
+  lines.push('|---|---|---|---|---|---|---|');
+  for (const actor of report.actors) {
+    lines.push(
+      `| ${actor.actorId} | ${actor.requests} | ${actor.reads} | ${actor.writes} | ${actor.denied} | ${actor.ips.join(', ') || '-'} | ${actor.lastSeen || '-'} |`
+    );
+  }
+
+  lines.push('');
+  lines.push('### IPs');
+  lines.push('| IP | Requests | Denied | Actors | First Seen |');
+  lines.push('|---|---|---|---|---|');
+  for (const ip of report.ips) {
+    lines.push(
+      `| ${ip.ip} | ${ip.requests} | ${ip.denied} | ${ip.actors} | ${ip.firstSeen || '-'} |`
+    );
+  }
+
+  if (report.mostReadItems.length > 0) {
+    lines.push('');
+    lines.push('### Most Read Items');
+    lines.push('| Item | Vault | Reads | Actors |');
+    lines.push('|---|---|---|---|');
+    for (const item of report.mostReadItems) {
+      lines.push(`| ${item.itemId} | ${item.vaultId || '-'} | ${item.reads} | ${item.actors} |`);
+    }
+  }
+
+  const firstSeen = [
+    ...report.firstSeenIps.map((f) => ({ ...f, kind: 'IP' })),
+    ...report.firstSeenUserAgents.map((f) => ({ ...f, kind: 'User agent' })),
+  ];
+  if (firstSeen.length > 0) {
+    lines.push('');
+    lines.push('### First Seen');
+    lines.push('| Kind | Value | Actor | First Seen | New for Actor |');
+    lines.push('|---|---|---|---|---|');
+    for (const f of firstSeen) {
+      lines.push(
+        `| ${f.kind} | ${f.value.replace(/\|/g, '\\|')} | ${f.actorId} | ${f.firstSeen || '-'} | ${f.newForActor ? 'Yes' : 'No'} |`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+  vaultsSearched: number;
+  errors: Array<{ vault: { id?: string; name: string }; error: string }>;
+}
+
+/**
+ * Format search results as Markdown
+ */
+function formatSearchAsMarkdown(search: SearchResponse): string {
+  const lines: string[] = [];
+  lines.push(`## Search: ${search.query}`);
+  lines.push('');
+  lines.push(
+    `**Matches:** ${search.total} | **Showing:** ${search.results.length} | **Vaults searched:** ${search.vaultsSearched}`
+  );
+  lines.push('');
+
+  if (search.results.length === 0) {
+    lines.push('_No items found._');
+  } else {
+    lines.push('| ID | Title | Vault | State | Match | Score |');
+    lines.push('|---|---|---|---|---|---|');
+    for (const result of search.results) {
+      const best = result.matches[0];
+      lines.push(
+        `| ${result.item.id} | ${result.item.title} | ${result.vault.name} | ${result.item.state} | ${best.attribute}: ${best.highlight.replace(/\|/g, '\\|')} | ${result.score} |`
+      );
+    }
+  }
+
+  if (search.errors.length > 0) {
+    lines.push('');
+    lines.push('### Vaults Not Searched');
+    for (const { vault, error } of search.errors) {
+      lines.push(`- ${vault.id ? `${vault.name} (${vault.id})` : vault.name}: ${error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format an item diff as Markdown
+ */
+function formatDiffAsMarkdown(diff: ItemDiff): string {
+  const lines: string[] = [];
+  lines.push('## Item Diff');
+  lines.push('');
+  lines.push(`**Summary:** ${diff.summary}`);
+
+  if (diff.properties.length > 0) {
+    lines.push('');
+    lines.push('### Properties');
+    for (const change of diff.properties) {
+      lines.push(`- ${change.property}: ${String(change.before)} → ${String(change.after)}`);
+    }
+  }
+
+  if (diff.fields.length > 0) {
+    lines.push('');
+    lines.push('### Fields');
+    lines.push('| Change | Label | Section | Details |');
+    lines.push('|---|---|---|---|');
+    for (const field of diff.fields) {
+      const details =
+        field.kind === 'changed'
+          ? (field.changes ?? []).map(formatPropertyChange).join('; ')
+          : (field.value ?? '-');
+      lines.push(
+        `| ${field.kind} | ${field.label || field.id} | ${field.section ?? '-'} | ${details.replace(/\|/g, '\\|')} |`
+      );
+    }
+  }
+
+  if (diff.sections.length > 0) {
+    lines.push('');
+    lines.push('### Sections');
+    for (const section of diff.sections) {
+      lines.push(`- ${section.kind}: ${section.label || section.id}`);
+    }
+  }
+
+  if (diff.urls.length > 0) {
+    lines.push('');
+    lines.push('### URLs');
+    for (const url of diff.urls) {
+      const details = url.changes ? ` (${url.changes.map(formatPropertyChange).join('; ')})` : '';
+      lines.push(`- ${url.kind}: ${url.href}${details}`);
+    }
+  }
+
+  if (diff.tags.added.length > 0 || diff.tags.removed.length > 0) {
+    lines.push('');
+    lines.push('### Tags');
+    for (const tag of diff.tags.added) lines.push(`- added: ${tag}`);
+    for (const tag of diff.tags.removed) lines.push(`- removed: ${tag}`);
+  }
+
+  if (diff.secrets.length > 0) {
+    lines.push('');
+    lines.push('### Secrets');
+    for (const secret of diff.secrets) {
+      lines.push(`- ${secret.label || secret.id}: ${secret.status}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatPropertyChange(change: PropertyChange): string {
+  if (change.secret) {
+    return change.after === undefined
+      ? `${change.property} changed`
+      : `${change.property}: ${String(change.after)}`;
+  }
+  return `${change.property}: ${String(change.before ?? '-')} → ${String(change.after ?? '-')}`;
+}
+
+/**
+ * Format a field value for a Markdown table cell
+ */
+function formatFieldValue(field: MaskedItemField): string {
+  if (field.masked) {
+    const hints = [`${field.valueLength} chars`];
+    if (field.entropy !== undefined) {
+      hints.push(`${field.entropy} bits`);
+    }
+    return `${field.value} _(${hints.join(', ')})_`;
+  }
+  if (!field.value) {
+    return '-';
+  }
+  return field.value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
 /**
  * Format a single object as Markdown
  */
 function formatObjectAsMarkdown(data: Record<string, unknown>, entityType: string): string {
+  if (entityType === 'item') {
+    return formatItemAsMarkdown(data as unknown as Item);
+  }
+  if (entityType === 'activity-report') {
+    return formatActivityReportAsMarkdown(data as unknown as ActivityReport);
+  }
+  if (entityType === 'search') {
+    return formatSearchAsMarkdown(data as unknown as SearchResponse);
+  }
+  if (entityType === 'diff') {
+    return formatDiffAsMarkdown(data as unknown as ItemDiff);
+  }
+
   const lines: string[] = [];
   lines.push(`## ${capitalize(entityType.replace(/s$/, ''))}`);
   lines.push('');
@@ -0,0 +1,158 @@
+/**
+ * Password Generation Utilities
+ *
+ * Random password and passphrase generation using crypto.getRandomValues,
+ * with entropy reporting.
+ */
+
+import type { PasswordRecipe } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { WORDLIST } from './wordlist.js';
+
+type CharacterSet = NonNullable<PasswordRecipe['characterSets']>[number];
+
+const CHARACTER_SETS: Record<CharacterSet, string> = {
+  LETTERS: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  DIGITS: '0123456789',
+  SYMBOLS: '!#$%&()*+,-./:;<=>?@[]^_{|}~',
+};
+
+/** Default password length (matches 1Password Connect) */
+export const DEFAULT_PASSWORD_LENGTH = 32;
+
+/** Default number of passphrase words */
+export const DEFAULT_PASSPHRASE_WORDS = 5;
+
+export interface PassphraseOptions {
+  /** Number of words */
+  words?: number;
+  /** Separator placed between words */
+  separator?: string;
+  /** Capitalize the first letter of each word */
+  capitalize?: boolean;
+  /** Append a random digit to one randomly chosen word */
+  includeNumber?: boolean;
+}
+
+export interface GeneratedSecret {
+  /** The generated password or passphrase */
+  value: string;
+  /** Length in characters */
+  length: number;
+  /** Entropy in bits */
+  entropy: number;
+}
+
+/**
+ * Generate a random password from a recipe.
+ *
+ * The password contains at least one character from each requested set.
+ */
+export function generatePassword(recipe: PasswordRecipe = {}): GeneratedSecret {
+  const length = recipe.length ?? DEFAULT_PASSWORD_LENGTH;
+  const setNames: CharacterSet[] = recipe.characterSets?.length
+    ? [...new Set(recipe.characterSets)]
+    : ['LETTERS', 'DIGITS', 'SYMBOLS'];
+  const excluded = new Set(recipe.excludeCharacters ?? '');
+
+  const sets = setNames.map((name) => {
+    const chars = [...CHARACTER_SETS[name]].filter((c) => !excluded.has(c));
+    if (chars.length === 0) {
+      throw new ValidationError(`Character set ${name} is empty after exclusions`);
+    }
+    return chars;
+  });
+
+  if (length < sets.length) {
+    throw new ValidationError(
+      `Length ${length} is too short to include all ${sets.length} character sets`
+    );
+  }
+
+  const pool = sets.flat();
+  const chars = sets.map((set) => set[randomInt(set.length)]);
+  while (chars.length < length) {
+    chars.push(pool[randomInt(pool.length)]);
+  }
+  shuffle(chars);
+
+  const entropy = passwordEntropy(
+    length,
+    sets.map((set) => set.length)
+  );
+  return { value: chars.join(''), length, entropy: roundEntropy(entropy) };
+}
+
+/**
+ * Generate a diceware-style passphrase from the bundled wordlist
+ */
+export function generatePassphrase(options: PassphraseOptions = {}): GeneratedSecret {
+  const count = options.words ?? DEFAULT_PASSPHRASE_WORDS;
+  const separator = options.separator ?? '-';
+
+  const words = Array.from({ length: count }, () => WORDLIST[randomInt(WORDLIST.length)]).map(
+    (word) => (options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word)
+  );
+
+  let entropy = count * Math.log2(WORDLIST.length);
+  if (options.includeNumber) {
+    words[randomInt(count)] += String(randomInt(10));
+    entropy += Math.log2(10) + Math.log2(count);
+  }
+
+  const value = words.join(separator);
+  return { value, length: value.length, entropy: roundEntropy(entropy) };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Uniform random integer in [0, max) using rejection sampling to avoid modulo bias
+ */
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  for (;;) {
+    crypto.getRandomValues(buffer);
+    if (buffer[0] < limit) {
+      return buffer[0] % max;
+    }
+  }
+}
+
+/**
+ * Fisher-Yates shuffle in place
+ */
+function shuffle<T>(values: T[]): void {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
+
+/**
+ * Entropy of a password of the given length drawn from disjoint character sets,
+ * where every set must appear at least once (inclusion-exclusion over missing sets).
+ */
+function passwordEntropy(length: number, setSizes: number[]): number {
+  const pool = setSizes.reduce((sum, size) => sum + size, 0);
+  let fraction = 0;
+  for (let mask = 1; mask < 1 << setSizes.length; mask++) {
+    let missing = 0;
+    let bits = 0;
+    setSizes.forEach((size, index) => {
+      if (mask & (1 << index)) {
+        missing += size;
+        bits++;
+      }
+    });
+    fraction += (bits % 2 === 1 ? -1 : 1) * ((pool - missing) / pool) ** length;
+  }
+  return length * Math.log2(pool) + Math.log2(1 + fraction);
+}
+
+function roundEntropy(bits: number): number {
+  return Math.round(bits * 10) / 10;
+}
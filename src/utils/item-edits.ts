@@ -0,0 +1,289 @@
+/**
+ * Item Edit Utilities
+ *
+ * Translate label-based edits (set a field, rename it, add a URL, ...) into
+ * JSON Patch operations against the current state of an item.
+ *
+ * Every operation that targets an existing array element is preceded by a
+ * `test` on that element, so the patch is rejected instead of touching the
+ * wrong entry if the item changed after it was read.
+ */
+
+import type {
+  FieldType,
+  Item,
+  ItemField,
+  ItemSection,
+  JsonPatchOperation,
+  PasswordRecipe,
+} from '../types/entities.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { findField } from './masking.js';
+
+export interface SetFieldInput {
+  /** Field ID or label to update; a new field with this label is added when none matches */
+  field: string;
+  /** New value (omit when generate is set) */
+  value?: string;
+  /** Have Connect generate a new value */
+  generate?: boolean;
+  /** Recipe used when generate is set */
+  recipe?: PasswordRecipe;
+  /** Field type (defaults to STRING for new fields) */
+  type?: FieldType;
+  /** Section ID or label; created when no section matches */
+  section?: string;
+}
+
+export interface AddUrlInput {
+  href: string;
+  label?: string;
+  /** Make this the primary URL (clears the flag on the others) */
+  primary?: boolean;
+}
+
+// =============================================================================
+// Fields
+// =============================================================================
+
+/**
+ * Update the value of a field, or add the field when no field matches
+ */
+export function setFieldOperations(item: Item, input: SetFieldInput): JsonPatchOperation[] {
+  if ((input.value === undefined) === !input.generate) {
+    throw new ValidationError('Provide exactly one of value or generate');
+  }
+
+  const operations: JsonPatchOperation[] = [];
+  let sectionId: string | undefined;
+  if (input.section !== undefined) {
+    sectionId = findSection(item, input.section)?.id;
+    if (sectionId === undefined) {
+      sectionId = newId();
+      operations.push(appendTo(item, 'sections', { id: sectionId, label: input.section }));
+    }
+  }
+
+  // A field cannot exist in a section that is only being created now
+  const field = operations.length === 0 ? locate(item, input) : undefined;
+  if (!field) {
+    const added: ItemField = {
+      id: newId(),
+      type: input.type ?? 'STRING',
+      label: input.field,
+      ...(input.value !== undefined && { value: input.value }),
+      ...(input.generate && { generate: true }),
+      ...(input.recipe && { recipe: input.recipe }),
+      ...(sectionId !== undefined && { section: { id: sectionId } }),
+    };
+    operations.push(appendTo(item, 'fields', added));
+    return operations;
+  }
+
+  const { index } = field;
+  const path = `/fields/${index}`;
+  operations.push(guard(item, index));
+  if (input.type !== undefined && input.type !== field.field.type) {
+    operations.push({ op: 'add', path: `${path}/type`, value: input.type });
+  }
+  if (input.generate) {
+    operations.push({ op: 'add', path: `${path}/generate`, value: true });
+    if (input.recipe) {
+      operations.push({ op: 'add', path: `${path}/recipe`, value: input.recipe });
+    }
+  } else {
+    operations.push({ op: 'add', path: `${path}/value`, value: input.value });
+  }
+  return operations;
+}
+
+/**
+ * Remove a field
+ */
+export function removeFieldOperations(
+  item: Item,
+  field: string,
+  section?: string
+): JsonPatchOperation[] {
+  const { index } = requireField(item, field, section);
+  return [guard(item, index), { op: 'remove', path: `/fields/${index}` }];
+}
+
+/**
+ * Change the label of a field
+ */
+export function renameFieldOperations(
+  item: Item,
+  field: string,
+  label: string,
+  section?: string
+): JsonPatchOperation[] {
+  const target = requireField(item, field, section);
+  const wanted = label.toLowerCase();
+  const clash = (item.fields ?? []).find(
+    (f) =>
+      f !== target.field &&
+      f.section?.id === target.field.section?.id &&
+      f.label?.toLowerCase() === wanted
+  );
+  if (clash) {
+    throw new ValidationError(`Another field in the same section is already labeled '${label}'`, {
+      candidates: [clash.id],
+    });
+  }
+  return [
+    guard(item, target.index),
+    { op: 'add', path: `/fields/${target.index}/label`, value: label },
+  ];
+}
+
+// =============================================================================
+// URLs & Tags
+// =============================================================================
+
+/**
+ * Add a URL to an item
+ */
+export function addUrlOperations(item: Item, input: AddUrlInput): JsonPatchOperation[] {
+  const urls = item.urls ?? [];
+  if (urls.some((u) => u.href === input.href)) {
+    throw new ValidationError(`URL '${input.href}' is already on the item`);
+  }
+
+  const operations: JsonPatchOperation[] = [];
+  if (input.primary) {
+    urls.forEach((url, index) => {
+      if (url.primary) {
+        operations.push({ op: 'test', path: `/urls/${index}/href`, value: url.href });
+        operations.push({ op: 'add', path: `/urls/${index}/primary`, value: false });
+      }
+    });
+  }
+  operations.push(
+    appendTo(item, 'urls', {
+      href: input.href,
+      ...(input.label !== undefined && { label: input.label }),
+      ...(input.primary && { primary: true }),
+    })
+  );
+  return operations;
+}
+
+/**
+ * Replace the tags of an item
+ */
+export function setTagsOperations(item: Item, tags: string[]): JsonPatchOperation[] {
+  const next = dedupeTags(tags);
+  if (item.tags === undefined) {
+    return [{ op: 'add', path: '/tags', value: next }];
+  }
+  return [
+    { op: 'test', path: '/tags', value: item.tags },
+    { op: 'replace', path: '/tags', value: next },
+  ];
+}
+
+/**
+ * Add tags to an item (tags already present, case-insensitively, are skipped)
+ */
+export function addTagsOperations(item: Item, tags: string[]): JsonPatchOperation[] {
+  const current = item.tags ?? [];
+  const present = new Set(current.map((t) => t.toLowerCase()));
+  const added = dedupeTags(tags).filter((t) => !present.has(t.toLowerCase()));
+  if (added.length === 0) {
+    return [];
+  }
+  return setTagsOperations(item, [...current, ...added]);
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+/**
+ * Archive or restore an item (nothing to do when it is already in that state)
+ */
+export function setStateOperations(item: Item, state: 'ACTIVE' | 'ARCHIVED'): JsonPatchOperation[] {
+  if ((item.state ?? 'ACTIVE') === state) {
+    return [];
+  }
+  return [{ op: 'add', path: '/state', value: state }];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function findSection(item: Item, section: string): ItemSection | undefined {
+  const wanted = section.toLowerCase();
+  return (
+    item.sections?.find((s) => s.id === section) ??
+    item.sections?.find((s) => s.label?.toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Locate the field a set_field call targets, or undefined when it is new
+ */
+function locate(item: Item, input: SetFieldInput): { field: ItemField; index: number } | undefined {
+  if (!item.fields?.length) {
+    return undefined;
+  }
+  try {
+    return requireField(item, input.field, input.section);
+  } catch (error) {
+    // Ambiguous labels propagate; only a missing field means "add"
+    if (error instanceof NotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function requireField(
+  item: Item,
+  field: string,
+  section?: string
+): { field: ItemField; index: number } {
+  const found = findField(item, field, section);
+  return { field: found, index: (item.fields ?? []).indexOf(found) };
+}
+
+/**
+ * Test that the field at an index is still the one that was read
+ */
+function guard(item: Item, index: number): JsonPatchOperation {
+  const field = (item.fields ?? [])[index];
+  return field.id
+    ? { op: 'test', path: `/fields/${index}/id`, value: field.id }
+    : { op: 'test', path: `/fields/${index}/label`, value: field.label };
+}
+
+function appendTo(
+  item: Item,
+  collection: 'fields' | 'sections' | 'urls',
+  value: unknown
+): JsonPatchOperation {
+  return item[collection] === undefined
+    ? { op: 'add', path: `/${collection}`, value: [value] }
+    : { op: 'add', path: `/${collection}/-`, value };
+}
+
+function dedupeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags.map((t) => t.trim())) {
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * A new field or section ID, in the form 1Password generates
+ */
+export function newId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
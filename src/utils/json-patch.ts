@@ -0,0 +1,211 @@
+/**
+ * JSON Patch Utilities
+ *
+ * Local RFC 6902 application, used to preview what a patch_item call would
+ * do to an item without sending it to Connect.
+ */
+
+import type { JsonPatchOperation } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Apply JSON Patch operations to a copy of a document.
+ *
+ * Operations are applied in order; the first one that fails throws a
+ * ValidationError naming its index, and the input is left untouched.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: unknown = structuredClone(document);
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ValidationError(
+        `Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`,
+        { operation: [String(index)], reason: [reason] }
+      );
+    }
+  });
+  return result as T;
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  switch (operation.op) {
+    case 'add':
+      return add(document, operation.path, structuredClone(requireValue(operation)));
+    case 'remove':
+      return remove(document, operation.path).document;
+    case 'replace':
+      return replace(document, operation.path, structuredClone(requireValue(operation)));
+    case 'move': {
+      const from = requireFrom(operation);
+      if (operation.path.startsWith(`${from}/`)) {
+        throw new Error(`cannot move '${from}' into one of its children`);
+      }
+      const removed = remove(document, from);
+      return add(removed.document, operation.path, removed.value);
+    }
+    case 'copy':
+      return add(document, operation.path, structuredClone(get(document, requireFrom(operation))));
+    case 'test': {
+      // The current value may be a secret, so only the mismatch is reported
+      if (!deepEqual(get(document, operation.path), requireValue(operation))) {
+        throw new Error('value differs from the expected value');
+      }
+      return document;
+    }
+    default:
+      throw new Error(`unknown operation '${(operation as { op: string }).op}'`);
+  }
+}
+
+function add(document: unknown, path: string, value: unknown): unknown {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    return value;
+  }
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : arrayIndex(key, parent.length + 1);
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function remove(document: unknown, path: string): { document: unknown; value: unknown } {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    return { document: undefined, value: document };
+  }
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(key, parent.length);
+    const [value] = parent.splice(index, 1);
+    return { document, value };
+  }
+  if (!Object.hasOwn(parent, key)) {
+    throw new Error(`path '${path}' does not exist`);
+  }
+  const value = parent[key];
+  delete parent[key];
+  return { document, value };
+}
+
+function replace(document: unknown, path: string, value: unknown): unknown {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    return value;
+  }
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent[arrayIndex(key, parent.length)] = value;
+  } else if (Object.hasOwn(parent, key)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`path '${path}' does not exist`);
+  }
+  return document;
+}
+
+function get(document: unknown, path: string): unknown {
+  let current = document;
+  for (const token of parsePointer(path)) {
+    current = child(current, token, path);
+  }
+  return current;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+ */
+function parsePointer(path: string): string[] {
+  if (path === '') {
+    return [];
+  }
+  if (!path.startsWith('/')) {
+    throw new Error(`path '${path}' must start with '/'`);
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function resolveParent(document: unknown, tokens: string[]): Container {
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    current = child(current, token, `/${tokens.join('/')}`);
+  }
+  if (!isContainer(current)) {
+    throw new Error(`parent of '/${tokens.join('/')}' is not an object or array`);
+  }
+  return current;
+}
+
+function child(value: unknown, token: string, path: string): unknown {
+  if (Array.isArray(value)) {
+    return value[arrayIndex(token, value.length)];
+  }
+  if (isContainer(value) && !Array.isArray(value) && Object.hasOwn(value, token)) {
+    return value[token];
+  }
+  throw new Error(`path '${path}' does not exist`);
+}
+
+function arrayIndex(token: string, size: number): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token) || Number(token) >= size) {
+    throw new Error(`array index '${token}' is out of range`);
+  }
+  return Number(token);
+}
+
+function requireValue(operation: JsonPatchOperation): unknown {
+  if (!('value' in operation)) {
+    throw new Error(`'${operation.op}' requires a value`);
+  }
+  return operation.value;
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (operation.from === undefined) {
+    throw new Error(`'${operation.op}' requires from`);
+  }
+  return operation.from;
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => deepEqual(value, b[index]));
+  }
+  if (isContainer(a) && isContainer(b) && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
@@ -0,0 +1,127 @@
+/**
+ * Secret Masking Utilities
+ *
+ * Helpers for keeping secret field values out of tool responses unless
+ * they are explicitly revealed.
+ */
+
+import type { FieldType, Item, ItemField, ItemFile } from '../types/entities.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+/**
+ * Placeholder shown instead of a masked value
+ */
+export const MASKED_VALUE = '••••••••';
+
+/**
+ * Field types whose values are masked by default
+ */
+const SENSITIVE_FIELD_TYPES: ReadonlySet<FieldType> = new Set<FieldType>([
+  'CONCEALED',
+  'OTP',
+  'SSHKEY',
+  'CREDIT_CARD_NUMBER',
+]);
+
+/**
+ * A field whose value has been replaced by a mask
+ */
+export interface MaskedItemField extends ItemField {
+  /** Whether the value was masked */
+  masked?: boolean;
+  /** Length of the original value */
+  valueLength?: number;
+}
+
+/**
+ * Check whether a field holds a secret value
+ */
+export function isSensitiveField(field: ItemField): boolean {
+  return (
+    (field.type !== undefined && SENSITIVE_FIELD_TYPES.has(field.type)) ||
+    field.purpose === 'PASSWORD'
+  );
+}
+
+/**
+ * Mask the value of a sensitive field, keeping length and entropy hints
+ */
+export function maskField(field: ItemField): MaskedItemField {
+  if (!isSensitiveField(field) || !field.value) {
+    return field;
+  }
+
+  const { value, totp: _totp, ...rest } = field;
+  return {
+    ...rest,
+    value: MASKED_VALUE,
+    masked: true,
+    valueLength: value.length,
+    ...(field.entropy !== undefined && { entropy: Math.round(field.entropy * 10) / 10 }),
+  };
+}
+
+/**
+ * Mask all sensitive field values on an item
+ */
+export function maskItem(item: Item): Item {
+  if (!item.fields) {
+    return item;
+  }
+  return {
+    ...item,
+    fields: item.fields.map(maskField),
+  };
+}
+
+/**
+ * Replace inline file content with a size hint
+ */
+export function maskFileContent(file: ItemFile): ItemFile & { contentOmitted?: boolean } {
+  if (!file.content) {
+    return file;
+  }
+  const { content: _content, ...rest } = file;
+  return { ...rest, contentOmitted: true };
+}
+
+/**
+ * Find a single field on an item by ID or label.
+ *
+ * IDs are matched first; labels are matched case-insensitively and must be unique.
+ * When a section is given, only fields in that section (by ID or label) are considered.
+ */
+export function findField(item: Item, idOrLabel: string, section?: string): ItemField {
+  let fields = item.fields ?? [];
+
+  if (section !== undefined) {
+    const wanted = section.toLowerCase();
+    const sectionIds = new Set(
+      (item.sections ?? [])
+        .filter((s) => s.id === section || s.label?.toLowerCase() === wanted)
+        .map((s) => s.id)
+    );
+    if (sectionIds.size === 0) {
+      throw new NotFoundError('Section', section);
+    }
+    fields = fields.filter((f) => f.section && sectionIds.has(f.section.id));
+  }
+
+  const byId = fields.find((f) => f.id === idOrLabel);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = idOrLabel.toLowerCase();
+  const byLabel = fields.filter((f) => f.label?.toLowerCase() === wanted);
+  if (byLabel.length === 1) {
+    return byLabel[0];
+  }
+  if (byLabel.length > 1) {
+    throw new ValidationError(`Label '${idOrLabel}' matches ${byLabel.length} fields`, {
+      candidates: byLabel.map((f) => f.id),
+    });
+  }
+
+  throw new NotFoundError('Field', idOrLabel);
+}
@@ -0,0 +1,122 @@
+/**
+ * Pagination Utilities
+ *
+ * Cursor-based pagination over full result sets returned by Connect, which
+ * itself does not paginate vault or item listings.
+ *
+ * Results are sorted by id so pages are stable. Each cursor encodes the offset,
+ * the listing it belongs to and a version (e.g. the vault's contentVersion); a
+ * cursor is rejected once the underlying data has changed.
+ */
+
+import type { PaginatedResponse } from '../types/entities.js';
+import { type Env, getDefaultPageSize, getMaxPageSize } from '../types/env.js';
+import { ValidationError } from './errors.js';
+
+export interface PageRequest {
+  /** Requested page size */
+  limit?: number;
+  /** Cursor returned by a previous page */
+  cursor?: string;
+}
+
+export interface PageScope {
+  /** Identifies the listing (e.g. vault and filter) the cursor belongs to */
+  scope: string;
+  /** Version of the underlying data; cursors from another version are rejected */
+  version: string | number;
+}
+
+interface CursorState {
+  /** Offset of the next page */
+  o: number;
+  /** Listing scope hash */
+  s: string;
+  /** Data version hash */
+  v: string;
+}
+
+/**
+ * Resolve a requested page size against DEFAULT_PAGE_SIZE and MAX_PAGE_SIZE
+ */
+export function resolvePageSize(env: Env, limit?: number): number {
+  const max = getMaxPageSize(env);
+  return Math.max(1, Math.min(limit ?? getDefaultPageSize(env), max));
+}
+
+/**
+ * Return one page of a result set, sorted by id
+ *
+ * @param all - Complete result set
+ * @param pageSize - Resolved page size
+ * @param cursor - Cursor from a previous page (omit for the first page)
+ * @param scope - Listing scope and data version encoded into cursors
+ */
+export function paginate<T extends { id: string }>(
+  all: T[],
+  pageSize: number,
+  cursor: string | undefined,
+  scope: PageScope
+): PaginatedResponse<T> {
+  const scopeHash = hashString(scope.scope);
+  const version = hashString(String(scope.version));
+  const offset = cursor ? decodeCursor(cursor, scopeHash, version) : 0;
+
+  const sorted = [...all].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const items = sorted.slice(offset, offset + pageSize);
+  const nextOffset = offset + items.length;
+  const hasMore = nextOffset < sorted.length;
+
+  return {
+    items,
+    count: items.length,
+    total: sorted.length,
+    hasMore,
+    nextOffset: hasMore ? nextOffset : undefined,
+    nextCursor: hasMore ? encodeCursor({ o: nextOffset, s: scopeHash, v: version }) : undefined,
+    page: Math.floor(offset / pageSize) + 1,
+    totalPages: Math.max(1, Math.ceil(sorted.length / pageSize)),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function encodeCursor(state: CursorState): string {
+  return btoa(JSON.stringify(state)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string, scopeHash: string, version: string): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))) as CursorState;
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (typeof state.o !== 'number' || !Number.isInteger(state.o) || state.o < 0) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (state.s !== scopeHash) {
+    throw new ValidationError('Cursor belongs to a different listing or filter');
+  }
+  if (state.v !== version) {
+    throw new ValidationError(
+      'Cursor has expired because the underlying data changed; restart the listing without a cursor'
+    );
+  }
+  return state.o;
+}
+
+/**
+ * Short non-cryptographic hash (FNV-1a) used to keep cursors compact
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
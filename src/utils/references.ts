@@ -0,0 +1,93 @@
+/**
+ * Secret Reference Utilities
+ *
+ * Parsing for 1Password secret references of the form
+ * op://vault/item/[section/]field[?attribute=...]
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Field attributes that can be requested with ?attribute=
+ */
+export const REFERENCE_ATTRIBUTES = ['value', 'type', 'id', 'label', 'purpose', 'otp'] as const;
+
+export type ReferenceAttribute = (typeof REFERENCE_ATTRIBUTES)[number];
+
+/**
+ * A parsed secret reference
+ */
+export interface SecretReference {
+  /** The original reference string */
+  raw: string;
+  /** Vault name or ID */
+  vault: string;
+  /** Item title or ID */
+  item: string;
+  /** Section label or ID (when section-qualified) */
+  section?: string;
+  /** Field label or ID */
+  field: string;
+  /** Requested field attribute */
+  attribute: ReferenceAttribute;
+}
+
+const REFERENCE_PREFIX = 'op://';
+
+/**
+ * Check whether a value looks like a 1Password UUID (26 lowercase base32 characters)
+ */
+export function isOnePasswordId(value: string): boolean {
+  return /^[a-z0-9]{26}$/.test(value);
+}
+
+/**
+ * Parse an op:// secret reference
+ */
+export function parseSecretReference(reference: string): SecretReference {
+  const raw = reference.trim();
+  if (!raw.startsWith(REFERENCE_PREFIX)) {
+    throw new ValidationError(`Secret reference must start with '${REFERENCE_PREFIX}': ${raw}`);
+  }
+
+  const body = raw.slice(REFERENCE_PREFIX.length);
+  const queryIndex = body.indexOf('?');
+  const path = queryIndex === -1 ? body : body.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : body.slice(queryIndex + 1);
+
+  const segments = path.split('/').map(decodeSegment);
+  if (segments.length < 3 || segments.length > 4 || segments.some((s) => s.length === 0)) {
+    throw new ValidationError(
+      `Invalid secret reference '${raw}'. Expected op://vault/item/[section/]field`
+    );
+  }
+
+  const params = new URLSearchParams(query);
+  const attribute = (params.get('attribute') ?? 'value').toLowerCase();
+  if (!REFERENCE_ATTRIBUTES.includes(attribute as ReferenceAttribute)) {
+    throw new ValidationError(`Unsupported attribute '${attribute}' in '${raw}'`, {
+      attribute: [...REFERENCE_ATTRIBUTES],
+    });
+  }
+
+  const [vault, item, ...rest] = segments;
+  return {
+    raw,
+    vault,
+    item,
+    section: rest.length === 2 ? rest[0] : undefined,
+    field: rest[rest.length - 1],
+    attribute: attribute as ReferenceAttribute,
+  };
+}
+
+/**
+ * Decode a percent-encoded path segment, leaving malformed encodings untouched
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Search Utilities
+ *
+ * Case-insensitive substring and fuzzy (subsequence) scoring of item
+ * attributes, with highlighting of the matched characters.
+ */
+
+import type { Item } from '../types/entities.js';
+
+export type SearchAttribute = 'title' | 'tag' | 'url' | 'field';
+
+export interface AttributeMatch {
+  /** Which attribute matched */
+  attribute: SearchAttribute;
+  /** The attribute value */
+  value: string;
+  /** The value with matched characters wrapped in ** */
+  highlight: string;
+  /** Match score between 0 and 1 */
+  score: number;
+}
+
+/**
+ * A ranked search hit
+ */
+export interface SearchResult {
+  vault: { id: string; name: string };
+  item: { id: string; title: string; category: string; state: string };
+  /** Best attribute score */
+  score: number;
+  /** Matched attributes, best first */
+  matches: AttributeMatch[];
+}
+
+interface TextMatch {
+  score: number;
+  /** Matched [start, end) ranges */
+  ranges: Array<[number, number]>;
+}
+
+/** Weight applied to each attribute's score, so title matches rank first */
+const ATTRIBUTE_WEIGHTS: Record<SearchAttribute, number> = {
+  title: 1,
+  tag: 0.9,
+  url: 0.85,
+  field: 0.8,
+};
+
+/** Fuzzy matches scoring below this are discarded */
+const MIN_FUZZY_SCORE = 0.2;
+
+/**
+ * Match a query against an item's title, tags, URLs and (when the item was
+ * fully fetched) field labels. Field values are never searched.
+ *
+ * Returns the matches sorted by score, best first.
+ */
+export function matchItem(query: string, item: Item, includeFields = false): AttributeMatch[] {
+  const candidates: Array<[SearchAttribute, string]> = [
+    ['title', item.title],
+    ...(item.tags ?? []).map((tag): [SearchAttribute, string] => ['tag', tag]),
+    ...(item.urls ?? []).map((url): [SearchAttribute, string] => ['url', url.href]),
+  ];
+  if (includeFields) {
+    for (const field of item.fields ?? []) {
+      if (field.label) {
+        candidates.push(['field', field.label]);
+      }
+    }
+  }
+
+  const matches: AttributeMatch[] = [];
+  for (const [attribute, value] of candidates) {
+    const match = scoreText(query, value);
+    if (match) {
+      matches.push({
+        attribute,
+        value,
+        highlight: highlight(value, match.ranges),
+        score: round(match.score * ATTRIBUTE_WEIGHTS[attribute]),
+      });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score how well a query matches a text.
+ *
+ * Substring matches score 0.6-1 (exact, prefix and word-start matches rank
+ * higher); otherwise the query's characters must appear in order, scored by
+ * how tightly they cluster.
+ */
+export function scoreText(query: string, text: string): TextMatch | undefined {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q || !t) {
+    return undefined;
+  }
+
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    let score: number;
+    if (q.length === t.length) {
+      score = 1;
+    } else if (index === 0) {
+      score = 0.9;
+    } else if (!/[a-z0-9]/.test(t[index - 1])) {
+      score = 0.8;
+    } else {
+      score = 0.7;
+    }
+    // Prefer matches covering more of the text
+    score -= 0.1 * (1 - q.length / t.length);
+    return { score, ranges: [[index, index + q.length]] };
+  }
+
+  // Fuzzy: leftmost in-order occurrence of each (non-space) query character
+  const chars = q.replace(/\s+/g, '');
+  const positions: number[] = [];
+  let from = 0;
+  for (const char of chars) {
+    const position = t.indexOf(char, from);
+    if (position === -1) {
+      return undefined;
+    }
+    positions.push(position);
+    from = position + 1;
+  }
+
+  const span = positions[positions.length - 1] - positions[0] + 1;
+  const score = 0.5 * (chars.length / span) * (0.5 + (0.5 * chars.length) / t.length);
+  if (score < MIN_FUZZY_SCORE) {
+    return undefined;
+  }
+  return { score, ranges: toRanges(positions) };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toRanges(positions: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === position) {
+      last[1] = position + 1;
+    } else {
+      ranges.push([position, position + 1]);
+    }
+  }
+  return ranges;
+}
+
+function highlight(text: string, ranges: Array<[number, number]>): string {
+  let result = '';
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    result += `${text.slice(cursor, start)}**${text.slice(start, end)}**`;
+    cursor = end;
+  }
+  return result + text.slice(cursor);
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
@@ -0,0 +1,191 @@
+/**
+ * Template Rendering Utilities
+ *
+ * Rendering of text templates containing {{ op://... }} placeholders, with
+ * escaping appropriate to the template's file format.
+ */
+
+export type TemplateFormat = 'dotenv' | 'yaml' | 'json' | 'properties' | 'text';
+
+/**
+ * A placeholder found in a template
+ */
+export interface TemplatePlaceholder {
+  /** The secret reference inside the placeholder */
+  reference: string;
+  /** Line number (1-based) where the placeholder starts */
+  line: number;
+  /** Offset of the opening braces */
+  start: number;
+  /** Offset just past the closing braces */
+  end: number;
+}
+
+/**
+ * A placeholder that could not be rendered
+ */
+export interface UnresolvedPlaceholder {
+  reference: string;
+  line: number;
+  error: string;
+}
+
+export interface RenderResult {
+  /** Rendered output (unresolved placeholders are left in place) */
+  output: string;
+  /** Placeholders that could not be rendered */
+  unresolved: UnresolvedPlaceholder[];
+}
+
+type QuoteContext = '"' | "'" | undefined;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(op:\/\/[^{}]+?)\s*\}\}/g;
+
+/**
+ * Find all secret reference placeholders in a template
+ */
+export function findPlaceholders(template: string): TemplatePlaceholder[] {
+  const placeholders: TemplatePlaceholder[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const start = match.index ?? 0;
+    placeholders.push({
+      reference: match[1],
+      line: template.slice(0, start).split('\n').length,
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return placeholders;
+}
+
+/**
+ * Render a template, substituting resolved values with format-specific escaping.
+ *
+ * @param values - Resolved values keyed by reference; failures map to an Error
+ */
+export function renderTemplate(
+  template: string,
+  format: TemplateFormat,
+  values: Map<string, string | Error>
+): RenderResult {
+  const unresolved: UnresolvedPlaceholder[] = [];
+  let output = '';
+  let cursor = 0;
+
+  for (const placeholder of findPlaceholders(template)) {
+    output += template.slice(cursor, placeholder.start);
+    cursor = placeholder.end;
+
+    const original = template.slice(placeholder.start, placeholder.end);
+    const value = values.get(placeholder.reference);
+    if (value === undefined || value instanceof Error) {
+      unresolved.push({
+        reference: placeholder.reference,
+        line: placeholder.line,
+        error: value?.message ?? 'Reference was not resolved',
+      });
+      output += original;
+      continue;
+    }
+
+    try {
+      const quote = quoteContext(template, placeholder);
+      output += escapeValue(value, format, quote);
+    } catch (error) {
+      unresolved.push({
+        reference: placeholder.reference,
+        line: placeholder.line,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      output += original;
+    }
+  }
+
+  output += template.slice(cursor);
+  return { output, unresolved };
+}
+
+/**
+ * Determine whether a placeholder sits directly inside matching quotes
+ */
+function quoteContext(template: string, placeholder: TemplatePlaceholder): QuoteContext {
+  const before = template[placeholder.start - 1];
+  const after = template[placeholder.end];
+  if (before === after && (before === '"' || before === "'")) {
+    return before;
+  }
+  return undefined;
+}
+
+/**
+ * Escape a value for the given format and quoting context
+ */
+function escapeValue(value: string, format: TemplateFormat, quote: QuoteContext): string {
+  switch (format) {
+    case 'json':
+      return escapeJson(value, quote);
+    case 'dotenv':
+      return escapeDotenv(value, quote);
+    case 'yaml':
+      return escapeYaml(value, quote);
+    case 'properties':
+      return escapeProperties(value);
+    case 'text':
+      return value;
+  }
+}
+
+function escapeJson(value: string, quote: QuoteContext): string {
+  const encoded = JSON.stringify(value);
+  if (quote === '"') {
+    return encoded.slice(1, -1);
+  }
+  if (quote === "'") {
+    throw new Error('JSON does not support single-quoted strings');
+  }
+  return encoded;
+}
+
+function escapeDotenv(value: string, quote: QuoteContext): string {
+  if (quote === "'") {
+    if (value.includes("'") || value.includes('\n')) {
+      throw new Error('Value contains quotes or newlines and cannot be single-quoted in dotenv');
+    }
+    return value;
+  }
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  if (quote === '"') {
+    return escaped;
+  }
+  return /^[A-Za-z0-9_./:@+,=-]*$/.test(value) ? value : `"${escaped}"`;
+}
+
+function escapeYaml(value: string, quote: QuoteContext): string {
+  if (quote === "'") {
+    if (/[\r\n]/.test(value)) {
+      throw new Error('Value contains newlines and cannot be single-quoted in YAML');
+    }
+    return value.replace(/'/g, "''");
+  }
+
+  // YAML double-quoted scalars accept JSON string escapes. Bare placeholders are
+  // always quoted so values like "yes" or "0123" stay strings.
+  const encoded = JSON.stringify(value);
+  return quote === '"' ? encoded.slice(1, -1) : encoded;
+}
+
+function escapeProperties(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/^ /, '\\ ')
+    .replace(/[^\x20-\x7e]/g, (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
@@ -0,0 +1,163 @@
+/**
+ * TOTP Utilities
+ *
+ * Time-based one-time password generation (RFC 6238) from otpauth:// URIs or
+ * base32 secrets, using the Web Crypto API.
+ */
+
+import { ValidationError } from './errors.js';
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/**
+ * TOTP parameters parsed from an OTP field value
+ */
+export interface TotpConfig {
+  /** Decoded shared secret */
+  secret: Uint8Array;
+  /** HMAC algorithm */
+  algorithm: TotpAlgorithm;
+  /** Number of code digits */
+  digits: number;
+  /** Time step in seconds */
+  period: number;
+}
+
+/**
+ * A generated one-time password
+ */
+export interface TotpCode {
+  /** The current code */
+  code: string;
+  /** Seconds until the code expires */
+  secondsRemaining: number;
+  /** Time step in seconds */
+  period: number;
+  /** Number of code digits */
+  digits: number;
+  /** HMAC algorithm */
+  algorithm: TotpAlgorithm;
+}
+
+const ALGORITHMS: Record<TotpAlgorithm, string> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Parse an OTP field value (otpauth:// URI or bare base32 secret)
+ */
+export function parseTotpConfig(value: string): TotpConfig {
+  const trimmed = value.trim();
+  if (!trimmed.toLowerCase().startsWith('otpauth://')) {
+    return { secret: decodeBase32(trimmed), algorithm: 'SHA1', digits: 6, period: 30 };
+  }
+
+  let uri: URL;
+  try {
+    uri = new URL(trimmed);
+  } catch {
+    throw new ValidationError('OTP field contains an invalid otpauth:// URI');
+  }
+  if (uri.host.toLowerCase() !== 'totp') {
+    throw new ValidationError(`Unsupported OTP type '${uri.host}'; only TOTP is supported`);
+  }
+
+  const secret = uri.searchParams.get('secret');
+  if (!secret) {
+    throw new ValidationError('otpauth:// URI is missing the secret parameter');
+  }
+
+  const algorithm = (uri.searchParams.get('algorithm') ?? 'SHA1').toUpperCase();
+  if (!(algorithm in ALGORITHMS)) {
+    throw new ValidationError(`Unsupported TOTP algorithm '${algorithm}'`);
+  }
+
+  const digits = Number(uri.searchParams.get('digits') ?? 6);
+  if (!Number.isInteger(digits) || digits < 6 || digits > 10) {
+    throw new ValidationError(`Unsupported TOTP digits '${digits}'`);
+  }
+
+  const period = Number(uri.searchParams.get('period') ?? 30);
+  if (!Number.isInteger(period) || period < 1) {
+    throw new ValidationError(`Unsupported TOTP period '${period}'`);
+  }
+
+  return {
+    secret: decodeBase32(secret),
+    algorithm: algorithm as TotpAlgorithm,
+    digits,
+    period,
+  };
+}
+
+/**
+ * Generate the TOTP code for a point in time
+ *
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ */
+export async function generateTotp(config: TotpConfig, now = Date.now()): Promise<TotpCode> {
+  const seconds = Math.floor(now / 1000);
+  const counter = Math.floor(seconds / config.period);
+
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    config.secret,
+    { name: 'HMAC', hash: ALGORITHMS[config.algorithm] },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  const code = (binary % 10 ** config.digits).toString().padStart(config.digits, '0');
+
+  return {
+    code,
+    secondsRemaining: config.period - (seconds % config.period),
+    period: config.period,
+    digits: config.digits,
+    algorithm: config.algorithm,
+  };
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, spaces and padding ignored)
+ */
+function decodeBase32(input: string): Uint8Array {
+  const cleaned = input.replace(/[\s=-]/g, '').toUpperCase();
+  if (cleaned.length === 0) {
+    throw new ValidationError('OTP secret is empty');
+  }
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new ValidationError('OTP secret is not valid base32');
+    }
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >>> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,160 @@
+/**
+ * XML Utilities
+ *
+ * A small non-validating XML parser for data exports (Workers have no
+ * DOMParser). It builds an element tree with attributes and text, decodes the
+ * predefined and numeric entities and CDATA, and skips comments, processing
+ * instructions and DOCTYPE declarations. Namespaces are not interpreted.
+ */
+
+import { ValidationError } from './errors.js';
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element */
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [document];
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) {
+      throw new ValidationError(`Invalid XML: expected '${terminator}' after offset ${position}`);
+    }
+    const content = source.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  while (position < source.length) {
+    const current = stack[stack.length - 1];
+    if (source[position] !== '<') {
+      const end = source.indexOf('<', position);
+      const text = source.slice(position, end === -1 ? source.length : end);
+      position += text.length;
+      if (current !== document) {
+        current.text += decodeEntities(text);
+      }
+    } else if (source.startsWith('<!--', position)) {
+      position += 4;
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += 9;
+      current.text += skipPast(']]>');
+    } else if (source.startsWith('<?', position) || source.startsWith('<!', position)) {
+      skipPast('>');
+    } else if (source.startsWith('</', position)) {
+      position += 2;
+      const name = skipPast('>').trim();
+      if (name !== current.name) {
+        throw new ValidationError(`Invalid XML: unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+    } else {
+      position += 1;
+      const tag = skipPast('>');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const name = body.match(/^[^\s/>]+/)?.[0];
+      if (!name) {
+        throw new ValidationError(`Invalid XML: malformed tag <${tag}>`);
+      }
+      const element: XmlElement = {
+        name,
+        attributes: parseAttributes(body.slice(name.length)),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new ValidationError(`Invalid XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  const [root] = document.children;
+  if (!root) {
+    throw new ValidationError('Invalid XML: no root element');
+  }
+  return root;
+}
+
+/**
+ * Direct children with the given name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Text of the first direct child with the given name
+ */
+export function childText(element: XmlElement, name: string): string | undefined {
+  return element.children.find((child) => child.name === name)?.text;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Whether a code point is a Char in XML 1.0: tab, line feed, carriage return
+ * and everything from U+0020 up, except surrogates, U+FFFE and U+FFFF. NaN and
+ * Infinity (overflowing references) fall outside every range.
+ */
+function isXmlChar(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      if (!isXmlChar(code)) {
+        throw new ValidationError(
+          `Invalid XML: character reference ${entity} is not an allowed character`
+        );
+      }
+      return String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+}
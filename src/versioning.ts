@@ -0,0 +1,82 @@
+/**
+ * Optimistic Concurrency
+ *
+ * Version-checked item writes. A caller passes the Item.version it last read;
+ * if the item has changed since, the write is refused with a ConflictError
+ * carrying the current version and a summary of what the caller's change
+ * would do to the current item, so it can be rebased.
+ */
+
+import type { OnePasswordClient, RequestOptions } from './client.js';
+import type { Item, JsonPatchOperation } from './types/entities.js';
+import { diffItems, summarizeDiff } from './utils/diff.js';
+import { ConflictError, OnePasswordApiError } from './utils/errors.js';
+import { applyJsonPatch } from './utils/json-patch.js';
+
+/**
+ * Patch an item, provided it is still at expectedVersion.
+ *
+ * A `test` operation on /version is prepended, so Connect rejects the whole
+ * patch atomically when the version has moved on.
+ */
+export async function patchItemAtVersion(
+  client: OnePasswordClient,
+  vaultId: string,
+  itemId: string,
+  operations: JsonPatchOperation[],
+  expectedVersion: number | undefined,
+  options?: RequestOptions
+): Promise<Item> {
+  if (expectedVersion === undefined) {
+    return client.patchItem(vaultId, itemId, operations, options);
+  }
+
+  const guarded: JsonPatchOperation[] = [
+    { op: 'test', path: '/version', value: expectedVersion },
+    ...operations,
+  ];
+  try {
+    return await client.patchItem(vaultId, itemId, guarded, options);
+  } catch (error) {
+    if (!(error instanceof OnePasswordApiError) || error.retryable) {
+      throw error;
+    }
+    // The failure may have nothing to do with the version; only a moved version is a conflict
+    const current = await client.getItem(vaultId, itemId, { ...options, noCache: true });
+    assertVersion(current, expectedVersion, () => summarizePatch(current, operations));
+    throw error;
+  }
+}
+
+/**
+ * Throw a ConflictError when an item is no longer at expectedVersion
+ *
+ * @param describe - Summarizes what the caller's change would do to the current item
+ */
+export function assertVersion(
+  current: Item,
+  expectedVersion: number | undefined,
+  describe: () => string
+): void {
+  if (expectedVersion === undefined || current.version === expectedVersion) {
+    return;
+  }
+  throw new ConflictError(
+    `Item '${current.title}' is at version ${current.version ?? 'unknown'}, not ${expectedVersion}. Re-read the item and reapply the change.`,
+    expectedVersion,
+    current.version,
+    describe()
+  );
+}
+
+/**
+ * Describe what a patch would do to the current item
+ */
+export function summarizePatch(current: Item, operations: JsonPatchOperation[]): string {
+  try {
+    return summarizeDiff(diffItems(current, applyJsonPatch(current, operations)));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `The patch no longer applies to the current item: ${reason}`;
+  }
+}